@@ -0,0 +1,172 @@
+/**
+ * Signing and verifying messages with a secret shared by both bridges
+ */
+
+import type { MessageSignature, RpcMessage } from './messages';
+import { generateId } from './utils';
+
+/** Options of `BridgeOptions.auth` */
+export interface AuthOptions {
+    /**
+     * Secret known to both bridges (e.g. issued to each by your server), used as
+     * the HMAC-SHA-256 key. A CryptoKey must allow both `sign` and `verify`.
+     */
+    secret: string | CryptoKey;
+    /** Signed messages older than this many ms are dropped as replays. Default: 30000 */
+    maxAge?: number;
+}
+
+/** Signs outgoing messages and checks incoming ones */
+export interface MessageAuthenticator {
+    /** Copy of the message with its signature added */
+    sign: (message: RpcMessage) => Promise<RpcMessage>;
+    /** Whether the message is signed with the shared secret and was not seen before */
+    verify: (message: RpcMessage) => Promise<boolean>;
+}
+
+const encoder = new TextEncoder();
+const HMAC_KEY_ALGORITHM: HmacImportParams = { name: 'HMAC', hash: 'SHA-256' };
+
+// Signed content: the message without its signature, bound to the nonce and timestamp
+const encodePayload = (message: RpcMessage, nonce: string, timestamp: number): BufferSource =>
+    encoder.encode(JSON.stringify([nonce, timestamp, canonicalize({ ...message, auth: undefined }, new Map())]));
+
+/**
+ * JSON form of a value as structured cloning delivers it, so both bridges encode
+ * it alike: every array is a type tag followed by the content, which covers
+ * binary data, Maps, Sets and shared or circular references. Values that
+ * cannot be covered are refused rather than signed partially.
+ */
+const canonicalize = (value: unknown, seen: Map<object, number>): unknown => {
+    switch (typeof value) {
+        case 'string':
+        case 'boolean':
+            return value;
+        case 'number':
+            return Number.isFinite(value) && !Object.is(value, -0) ? value : ['Number', String(value)];
+        case 'bigint':
+            return ['BigInt', value.toString()];
+        case 'undefined':
+            return ['Undefined'];
+        case 'object':
+            break;
+        default:
+            throw new TypeError(`Cannot sign a message containing a ${typeof value}`);
+    }
+    if (value === null) return null;
+
+    // Cloning keeps references, so a repeated object is encoded by its position
+    const ref = seen.get(value);
+    if (ref !== undefined) return ['Ref', ref];
+    seen.set(value, seen.size);
+
+    if (ArrayBuffer.isView(value)) {
+        const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+        return [getTag(value), toBase64(bytes)];
+    }
+    const tag = getTag(value);
+    switch (tag) {
+        case 'Object':
+            return ['Object', Object.entries(value).map(([key, item]) => [key, canonicalize(item, seen)])];
+        case 'Array':
+            return ['Array', Array.from(value as unknown[], (item) => canonicalize(item, seen))];
+        case 'Map':
+            return ['Map', Array.from(value as Map<unknown, unknown>, ([key, item]) => [
+                canonicalize(key, seen),
+                canonicalize(item, seen),
+            ])];
+        case 'Set':
+            return ['Set', Array.from(value as Set<unknown>, (item) => canonicalize(item, seen))];
+        case 'ArrayBuffer':
+            return ['ArrayBuffer', toBase64(new Uint8Array(value as ArrayBuffer))];
+        case 'Date':
+            return ['Date', canonicalize((value as Date).getTime(), seen)];
+        case 'RegExp':
+            return ['RegExp', (value as RegExp).source, (value as RegExp).flags];
+        case 'Boolean':
+        case 'Number':
+        case 'String':
+        case 'BigInt':
+            return [tag, canonicalize((value as { valueOf(): unknown }).valueOf(), seen)];
+        case 'Error':
+            return ['Error', String((value as Error).name), String((value as Error).message)];
+        case 'MessagePort':
+            // Transferred, not copied: only its presence is covered
+            return ['MessagePort'];
+        default:
+            throw new TypeError(`Cannot sign a message containing a ${tag}`);
+    }
+};
+
+const getTag = (value: object): string => Object.prototype.toString.call(value).slice(8, -1);
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    // Chunked: spreading a large buffer at once overflows the call stack
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (value: string): BufferSource => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const isSignature = (value: unknown): value is MessageSignature => {
+    if (typeof value !== 'object' || value === null) return false;
+    const { nonce, timestamp, mac } = value as Record<string, unknown>;
+    return typeof nonce === 'string' && typeof timestamp === 'number' && typeof mac === 'string';
+};
+
+/**
+ * Create the authenticator of a bridge. Every signature carries a random nonce;
+ * nonces are remembered for `maxAge` so each signed message is accepted once.
+ * @internal
+ */
+export function createMessageAuthenticator(options: Required<AuthOptions>): MessageAuthenticator {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+        throw new Error('The auth option requires WebCrypto (crypto.subtle), only available in secure contexts');
+    }
+
+    const { secret, maxAge } = options;
+    const key = typeof secret === 'string'
+        ? crypto.subtle.importKey('raw', encoder.encode(secret), HMAC_KEY_ALGORITHM, false, ['sign', 'verify'])
+        : Promise.resolve(secret);
+    // Nonces of accepted messages with their timestamps, oldest first
+    const seenNonces = new Map<string, number>();
+
+    const forgetExpired = (now: number) => {
+        for (const [nonce, timestamp] of seenNonces) {
+            if (now - timestamp <= maxAge) break;
+            seenNonces.delete(nonce);
+        }
+    };
+
+    return {
+        sign: async (message) => {
+            const nonce = generateId();
+            const timestamp = Date.now();
+            const mac = await crypto.subtle.sign('HMAC', await key, encodePayload(message, nonce, timestamp));
+            return { ...message, auth: { nonce, timestamp, mac: toBase64(new Uint8Array(mac)) } };
+        },
+        verify: async (message) => {
+            const { auth } = message;
+            if (!isSignature(auth)) return false;
+
+            const now = Date.now();
+            forgetExpired(now);
+            if (Math.abs(now - auth.timestamp) > maxAge || seenNonces.has(auth.nonce)) return false;
+
+            try {
+                const payload = encodePayload(message, auth.nonce, auth.timestamp);
+                const isValid = await crypto.subtle.verify('HMAC', await key, fromBase64(auth.mac), payload);
+                // Checked again: a copy may have been verified while this one was
+                if (!isValid || seenNonces.has(auth.nonce)) return false;
+                seenNonces.set(auth.nonce, auth.timestamp);
+                return true;
+            } catch {
+                // Malformed signature
+                return false;
+            }
+        },
+    };
+}
@@ -2,36 +2,197 @@
  * Core bridge implementation for bidirectional RPC communication
  */
 
-import type { AnyMethod, CallProxy, MethodContract, UnwrapPromise, VoidMethods } from './types';
-import type { ResolvedBridgeOptions } from './config';
+import type {
+    AnyMethod,
+    CallMeta,
+    CallProxy,
+    CallResult,
+    HandlerContext,
+    MethodContract,
+    UnwrapPromise,
+    VoidMethods,
+} from './types';
+import type { CallOptions, ResolvedBridgeOptions, ResolvedCallOptions } from './config';
+import { resolveCallOptions } from './config';
 import {
     MESSAGE_TYPE,
+    PROTOCOL_VERSION,
+    RESERVED_METHOD,
     type RequestMessage,
     type ResponseMessage,
     type ErrorMessage,
+    type SerializedError,
     type FireAndForgetMessage,
+    type SynMessage,
+    type AckMessage,
+    type FinMessage,
+    type PingMessage,
+    type PongMessage,
+    type CancelMessage,
+    type StreamStartMessage,
+    type StreamChunkMessage,
+    type StreamEndMessage,
+    type StreamPullMessage,
+    type CallbackMessage,
+    type CallbackReleaseMessage,
+    type PortMessage,
+    type BatchMessage,
     type RpcMessage,
 } from './messages';
-import { RpcError, RpcMethodNotFoundError, RpcTimeoutError } from './errors';
-import { generateId, isRpcMessage, createLogger, sleep } from './utils';
+import {
+    RpcAbortedError,
+    RpcContractMismatchError,
+    RpcDisconnectedError,
+    RpcError,
+    RpcForbiddenError,
+    RpcMethodNotFoundError,
+    RpcProtocolError,
+    RpcTimeoutError,
+    RpcValidationError,
+} from './errors';
+import { generateId, isRpcMessage, createLogger, createDeferred, sleep, isCloneable } from './utils';
+import { createStreamReader, isAsyncIterable, toCallResult, type StreamReader } from './stream';
+import { createCallbackRegistry, decodeCallbacks, encodeCallbacks } from './callbacks';
+import { collectTransferables, mergeTransferables } from './transfer';
+import { invokeHandler } from './context';
+import { createMessagePortTransport, type Transport } from './transport';
+import { validateSchema, type StandardSchemaV1 } from './schema';
+import { compareManifest, getManifest, hasMethod } from './contract';
+import { createOriginMatcher } from './origin';
+import { createMessageAuthenticator } from './auth';
+import { createSerializer } from './serializer';
+import {
+    COMPRESSION_ALGORITHMS,
+    compressValue,
+    decompressValue,
+    isCompressedValue,
+    isCompressionSupported,
+} from './compression';
+import {
+    runMiddleware,
+    type CallMiddleware,
+    type HandlerMiddleware,
+    type IncomingCall,
+    type Middleware,
+    type OutgoingCall,
+} from './middleware';
+
+/** Connection lifecycle events emitted by a bridge */
+export type BridgeEvent = 'connect' | 'disconnect' | 'reconnect';
+
+/** Listener for connection lifecycle events */
+export type BridgeEventListener = () => void;
+
+/**
+ * Subscribe to load/navigation of the target window, returning an unsubscribe function
+ * @internal
+ */
+export type TargetLoadWatcher = (listener: () => void) => () => void;
+
+/**
+ * Window-specific behaviour of parent and iframe bridges
+ * @internal
+ */
+export interface WindowBridgeHooks {
+    side: 'parent' | 'iframe';
+    /** Current remote window, to detect it being replaced */
+    getTarget: () => Window | null;
+    watchTargetLoad?: TargetLoadWatcher;
+}
+
+/**
+ * Liveness of the remote side:
+ * - `unknown`: nothing received yet
+ * - `alive`: the remote side answered recently
+ * - `unresponsive`: heartbeats are being missed
+ * - `dead`: `missedBeforeDead` heartbeats in a row went unanswered
+ */
+export type LivenessState = 'unknown' | 'alive' | 'unresponsive' | 'dead';
+
+/** Health snapshot of the connection to the remote side */
+export interface BridgeHealth {
+    /** Current liveness state */
+    state: LivenessState;
+    /** Timestamp (ms since epoch) of the last message received from the remote side */
+    lastSeen: number | null;
+    /** Round-trip time of the last answered heartbeat in ms */
+    latency: number | null;
+    /** Consecutive unanswered heartbeats */
+    missedHeartbeats: number;
+}
+
+/** What a remote bridge reports about itself, see `bridge.describeRemote()` */
+export interface RemoteDescription {
+    /** Names of the methods the remote side handles */
+    methods: string[];
+    /** Wire protocol version of the remote library */
+    protocolVersion: number;
+    /** Version of the remote contract, if set with `contracts.version` */
+    contractVersion?: string;
+}
+
+/** Message waiting for the handshake, with the objects to transfer when sent */
+interface QueuedMessage {
+    message: RpcMessage;
+    transfer?: Transferable[];
+}
+
+/** Messages that always travel over the window, even when a MessageChannel is used */
+const HANDSHAKE_MESSAGE_TYPES = new Set<string>([
+    MESSAGE_TYPE.SYN,
+    MESSAGE_TYPE.ACK,
+    MESSAGE_TYPE.PORT,
+]);
+
+/** Look up a method's schema, ignoring inherited keys such as "constructor" */
+const findSchema = (
+    schemas: Record<string, StandardSchemaV1> | undefined,
+    method: string
+): StandardSchemaV1 | undefined =>
+    schemas && Object.prototype.hasOwnProperty.call(schemas, method) ? schemas[method] : undefined;
+
+/** Message field carrying call metadata, left out when there is none */
+const metaField = (meta: CallMeta | undefined): { meta?: CallMeta } =>
+    meta && Object.keys(meta).length > 0 ? { meta } : {};
+
+/** Sends a message, e.g. directly or into the replies of a batch */
+type MessageSender = (message: RpcMessage, transfer?: Transferable[]) => void;
 
 /** Pending request tracking */
 interface PendingRequest {
+    method: string;
     resolve: (value: unknown) => void;
     reject: (error: Error) => void;
     timeoutId: ReturnType<typeof setTimeout>;
+    /** Signal passed with the call, kept to cancel a streamed response */
+    signal?: AbortSignal;
+    /** Detach the AbortSignal listener, if any */
+    cleanup?: () => void;
+    /** Functions passed as arguments, released when the call completes */
+    callbackIds?: string[];
+    /** Window the request was issued to, the only one allowed to answer it */
+    peer?: Window;
+}
+
+/** Streamed response being consumed locally */
+interface ActiveStream {
+    method: string;
+    reader: StreamReader;
+}
+
+/** Streamed response being produced for the remote side */
+interface StreamProducer {
+    /** Chunks the consumer is ready to receive */
+    credit: number;
+    /** Resume the producer after credit was granted or the stream was cancelled */
+    wake: (() => void) | null;
 }
 
 /**
- * Bridge interface for bidirectional RPC communication
- * @typeParam _TLocal - Local method handlers (unused, retained for API symmetry)
+ * Methods for calling the remote side
  * @typeParam TRemote - Remote methods available to call
  */
-export interface Bridge<
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _TLocal extends MethodContract,
-    TRemote extends MethodContract
-> {
+export interface BridgeCaller<TRemote extends MethodContract> {
     /** Proxy object to call remote methods with full type safety */
     call: CallProxy<TRemote>;
 
@@ -39,13 +200,103 @@ export interface Bridge<
     invoke: <K extends keyof TRemote>(
         method: K,
         ...args: Parameters<TRemote[K]>
-    ) => Promise<UnwrapPromise<ReturnType<TRemote[K]>>>;
+    ) => CallResult<ReturnType<TRemote[K]>>;
 
     /** Fire-and-forget call (no response expected) */
     notify: <K extends VoidMethods<TRemote>>(
         method: K,
         ...args: Parameters<TRemote[K]>
     ) => void;
+}
+
+/**
+ * Bridge interface for bidirectional RPC communication
+ * @typeParam _TLocal - Local method handlers (unused, retained for API symmetry)
+ * @typeParam TRemote - Remote methods available to call
+ */
+export interface Bridge<
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _TLocal extends MethodContract,
+    TRemote extends MethodContract
+> extends BridgeCaller<TRemote> {
+    /**
+     * Call the remote side with per-call options (timeout, retry, signal, transfer)
+     *
+     * @example
+     * const report = await bridge.withOptions({ timeout: 120_000 }).call.exportReport();
+     *
+     * const controller = new AbortController();
+     * const results = bridge.withOptions({ signal: controller.signal }).call.search('foo');
+     * controller.abort(); // results rejects with RpcAbortedError
+     */
+    withOptions: (options: CallOptions) => BridgeCaller<TRemote>;
+
+    /**
+     * Send the calls and notifications made in `build` as a single message,
+     * once call middleware has sent each of them (or failed it).
+     * Each call still resolves or rejects on its own.
+     * @returns Whatever `build` returns
+     *
+     * @example
+     * const [user, prefs] = await Promise.all(
+     *   bridge.batch((b) => [b.call.getUser('1'), b.call.getPrefs()])
+     * );
+     */
+    batch: <T>(build: (caller: BridgeCaller<TRemote>) => T) => T;
+
+    /**
+     * Resolves once the remote bridge has answered the handshake.
+     * Resolves immediately when `handshake` is disabled, rejects if the bridge
+     * is destroyed before connecting.
+     */
+    ready: Promise<void>;
+
+    /** Wait until the remote bridge is connected (again, after a disconnect) */
+    whenConnected: () => Promise<void>;
+
+    /** Check if the handshake with the remote bridge has completed */
+    isConnected: () => boolean;
+
+    /**
+     * Subscribe to connection lifecycle events (requires `handshake`)
+     * @returns Function that removes the listener
+     */
+    on: (event: BridgeEvent, listener: BridgeEventListener) => () => void;
+
+    /** Remove a lifecycle event listener */
+    off: (event: BridgeEvent, listener: BridgeEventListener) => void;
+
+    /**
+     * Add middleware around outgoing calls (`call`) and/or local handlers (`handle`).
+     * Middleware runs in the order it was added.
+     * @returns Function that removes the middleware
+     *
+     * @example
+     * bridge.use({
+     *   call: async (call, next) => {
+     *     const started = performance.now();
+     *     try {
+     *       return await next();
+     *     } finally {
+     *       metrics.record(call.method, performance.now() - started);
+     *     }
+     *   },
+     *   handle: async (call, next) => {
+     *     if (!isAllowed(call.method)) throw new RpcError('Forbidden', 'FORBIDDEN');
+     *     return next();
+     *   },
+     * });
+     */
+    use: (middleware: Middleware) => () => void;
+
+    /**
+     * Ask the remote bridge which methods it handles and which versions it runs.
+     * Remote bridges older than this feature reject with code `METHOD_NOT_FOUND`.
+     */
+    describeRemote: (options?: CallOptions) => Promise<RemoteDescription>;
+
+    /** Get liveness information about the remote side (see `heartbeat` option) */
+    getHealth: () => BridgeHealth;
 
     /** Destroy the bridge and clean up resources */
     destroy: () => void;
@@ -55,198 +306,1462 @@ export interface Bridge<
 }
 
 /**
- * Create a bridge for RPC communication
+ * Create a bridge for RPC communication over a transport
  * @internal
  */
-export function createBridge<
+export function createBridgeCore<
     TLocal extends MethodContract,
     TRemote extends MethodContract
 >(
-    target: Window,
+    transport: Transport,
     handlers: TLocal,
     options: ResolvedBridgeOptions,
-    side: 'parent' | 'iframe'
+    windowHooks?: WindowBridgeHooks
 ): Bridge<TLocal, TRemote> {
     const pendingRequests = new Map<string, PendingRequest>();
+    // Requests being handled locally, so the caller can cancel them
+    const activeRequests = new Map<string, AbortController>();
+    const activeStreams = new Map<string, ActiveStream>();
+    const streamProducers = new Map<string, StreamProducer>();
+    // Functions passed as arguments to the remote side, by callback id
+    const localCallbacks = new Map<string, AnyMethod>();
+    // Tell the owner when a proxy for one of its functions is garbage collected
+    const callbackRegistry = createCallbackRegistry((callbackId) => {
+        if (isDestroyed) return;
+        const message: CallbackReleaseMessage = {
+            __iframeRpc: true,
+            v: PROTOCOL_VERSION,
+            type: MESSAGE_TYPE.CALLBACK_RELEASE,
+            channel: options.channel,
+            callbackId,
+        };
+        sendToRemote(message);
+    });
     let isDestroyed = false;
-    const logger = createLogger(options.debug, `iframe-rpc:${side}`);
+    const side = windowHooks?.side;
+    const logger = createLogger(options.debug, side ? `iframe-rpc:${side}` : 'iframe-rpc');
+    // Message signing (see `auth` option)
+    const authenticator = options.auth ? createMessageAuthenticator(options.auth) : null;
+    // Custom types (see `serializer` option), and the tags the remote side decodes:
+    // the same as ours unless its handshake says otherwise
+    const serializer = options.serializer ? createSerializer(options.serializer) : null;
+    let remoteTypes: ReadonlySet<string> = new Set(serializer?.tags);
+    // Payload compression (see `compression` option), and the algorithms the remote
+    // side announced it decompresses: none until the handshake
+    if (options.compression && !options.handshake) {
+        throw new Error('The compression option requires the handshake option');
+    }
+    const compression = options.compression && isCompressionSupported() ? options.compression : null;
+    let remoteCompression: ReadonlySet<string> = new Set();
+    // Signing and compression are asynchronous, so each direction is chained to keep messages in order
+    const isPipelineAsync = authenticator !== null || compression !== null;
+    let outgoing = Promise.resolve();
+    let incoming = Promise.resolve();
+
+    // Connection state: without a handshake the remote side is assumed ready
+    let isConnected = !options.handshake;
+    let hasConnected = false;
+    let connectedWindow: Window | null = null;
+    const session = generateId();
+    let remoteSession: string | undefined;
+    // Why the last remote bridge was refused; new calls fail with it until a compatible one connects
+    let refusal: Error | null = null;
+    const outbox: QueuedMessage[] = [];
+    // Calls collected by batch() or auto-batching, sent together when flushed
+    let batchQueue: QueuedMessage[] | null = null;
+    // Calls made while batch() collects whose middleware has not sent them yet:
+    // the batch stays open until each is sent or fails
+    let batchHold: { waiting: number; isBuilt: boolean } | null = null;
+    // Dedicated MessageChannel (see `messageChannel` option), created by the parent
+    const wantsPort = options.handshake && options.messageChannel && side !== undefined;
+    let usingPort = false;
+    let portTransport: Transport | null = null;
+    let unsubscribePort: (() => void) | undefined;
+    // Window message that set up the port, standing in for port messages in handler contexts
+    let portEvent: MessageEvent | undefined;
+    const ready = createDeferred<void>();
+    let connection = ready;
+    // Contract details announced to the remote side during the handshake
+    const handshakeDetails: Pick<SynMessage, 'manifest' | 'contractVersion' | 'types' | 'compression'> = {
+        ...(options.contracts.local && { manifest: getManifest(options.contracts.local) }),
+        ...(options.contracts.version !== undefined && { contractVersion: options.contracts.version }),
+        ...(serializer && { types: serializer.tags }),
+        ...(compression && { compression: COMPRESSION_ALGORITHMS }),
+    };
+    if (isConnected) ready.resolve();
 
-    // Handle incoming messages
-    const handleMessage = (event: MessageEvent) => {
+    // Middleware added with use(), replaced rather than mutated so running chains are unaffected
+    let callMiddleware: CallMiddleware[] = [];
+    let handlerMiddleware: HandlerMiddleware[] = [];
+
+    const listeners: Record<BridgeEvent, Set<BridgeEventListener>> = {
+        connect: new Set(),
+        disconnect: new Set(),
+        reconnect: new Set(),
+    };
+
+    // Liveness tracking (heartbeat)
+    let lastSeen: number | null = null;
+    let latency: number | null = null;
+    let missedHeartbeats = 0;
+    let outstandingPing: { id: string; sentAt: number } | null = null;
+    let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+    const emit = (event: BridgeEvent) => {
+        for (const listener of listeners[event]) {
+            try {
+                listener();
+            } catch (error) {
+                logger.error(`Error in "${event}" listener:`, error);
+            }
+        }
+    };
+
+    // Handle incoming transport messages
+    const handleMessage = (data: unknown, event?: MessageEvent) => {
         if (isDestroyed) return;
+        if (!isRpcMessage(data)) return;
+        if (data.channel !== options.channel) return;
+
+        // Once the bridges agreed on a MessageChannel, only the handshake uses the window
+        if (usingPort && !HANDSHAKE_MESSAGE_TYPES.has(data.type)) {
+            logger.log('Ignoring window message while using a MessageChannel:', data);
+            return;
+        }
 
-        // Validate origin when targetOrigin is specified
-        if (options.targetOrigin !== '*' && event.origin !== options.targetOrigin) {
-            logger.log('Rejected message from untrusted origin:', event.origin);
+        // Only the window this bridge talks to may call it or answer its calls
+        if (options.verifySource && windowHooks && event && event.source !== windowHooks.getTarget()) {
+            logger.log('Ignoring message from another window:', data);
             return;
         }
 
-        const data = event.data;
+        receiveMessage(data, event);
+    };
+
+    // Handle messages from the dedicated MessagePort; only the remote bridge holds the other end
+    const handlePortMessage = (data: unknown) => {
+        if (isDestroyed) return;
         if (!isRpcMessage(data)) return;
         if (data.channel !== options.channel) return;
 
+        // Port messages come from the window that handed over the port
+        receiveMessage(data, portEvent);
+    };
+
+    // Route a message once its payload is decompressed and its signature checked, when enabled.
+    // Messages are signed before compression, so the signature covers the payload itself.
+    const receiveMessage = (data: RpcMessage, event?: MessageEvent) => {
+        if (!isPipelineAsync) {
+            const message = deserialize(data);
+            if (message) routeMessage(message, event);
+            return;
+        }
+
+        incoming = incoming
+            .then(async () => {
+                const decompressed = compression ? await decompress(data) : data;
+                if (!decompressed) return;
+                if (authenticator && !(await authenticator.verify(decompressed))) {
+                    logger.log('Ignoring unsigned, forged or replayed message:', data);
+                    return;
+                }
+                const message = isDestroyed ? null : deserialize(decompressed);
+                if (message) routeMessage(message, event);
+            })
+            .catch((error) => logger.error('Failed to read message:', error));
+    };
+
+    // Decompress the payload of an incoming message; null when the message was
+    // dropped because a payload could not be decompressed, e.g. exceeding `maxSize`
+    const decompress = async (message: RpcMessage): Promise<RpcMessage | null> => {
+        const { maxSize } = compression!;
+        // Signed batches are verified as a whole, so only unsigned ones are handled item by item
+        if (message.type === MESSAGE_TYPE.BATCH && !authenticator) {
+            const messages = await Promise.all(
+                (message as BatchMessage).messages.map((item) => (isRpcMessage(item) ? decompress(item) : item))
+            );
+            return { ...message, messages: messages.filter((item) => item !== null) } as BatchMessage;
+        }
+        try {
+            return await convertPayloadAsync(message, (value) => decompressValue(value, maxSize));
+        } catch (error) {
+            // A signed message cannot be verified without its payload, so it is not answered
+            if (!authenticator) return handleUndecodable(message, error);
+            logger.error('Ignoring message that cannot be decompressed:', error);
+            return null;
+        }
+    };
+
+    // Convert the payload of a message (and of the messages in a batch), e.g. with the serializer
+    const convertPayload = (message: RpcMessage, convert: (value: unknown) => unknown): RpcMessage => {
+        switch (message.type) {
+            case MESSAGE_TYPE.REQUEST:
+            case MESSAGE_TYPE.FIRE_AND_FORGET:
+            case MESSAGE_TYPE.CALLBACK:
+                return { ...message, args: convert(message.args) as unknown[] };
+            case MESSAGE_TYPE.RESPONSE:
+                return { ...message, result: convert(message.result) };
+            case MESSAGE_TYPE.STREAM_CHUNK:
+                return { ...message, value: convert(message.value) };
+            case MESSAGE_TYPE.ERROR:
+                return { ...message, error: convert(message.error) as ErrorMessage['error'] };
+            case MESSAGE_TYPE.BATCH:
+                return { ...message, messages: message.messages.map((item) => convertPayload(item, convert)) };
+            default:
+                return message;
+        }
+    };
+
+    // Convert payloads asynchronously: collect the conversions, then rebuild the message with their results
+    const convertPayloadAsync = async (
+        message: RpcMessage,
+        convert: (value: unknown) => Promise<unknown>
+    ): Promise<RpcMessage> => {
+        const conversions: Promise<unknown>[] = [];
+        convertPayload(message, (value) => {
+            conversions.push(convert(value));
+            return value;
+        });
+        const results = await Promise.all(conversions);
+        return convertPayload(message, () => results.shift());
+    };
+
+    // Compress large payloads when the remote side can decompress them. Messages
+    // transferring objects are left alone, as their payload is not plain JSON.
+    const compress = async (message: RpcMessage, transfer?: Transferable[]): Promise<QueuedMessage> => {
+        if (!compression || !remoteCompression.has(compression.algorithm) || transfer?.length) {
+            return { message, transfer };
+        }
+
+        const buffers: Transferable[] = [];
+        const compressed = await convertPayloadAsync(message, async (value) => {
+            const result = await compressValue(value, compression);
+            if (isCompressedValue(result)) buffers.push(result.data);
+            return result;
+        });
+        return { message: compressed, transfer: buffers };
+    };
+
+    const serialize = (message: RpcMessage): RpcMessage =>
+        serializer ? convertPayload(message, (value) => serializer.encode(value, remoteTypes)) : message;
+
+    // Decode the payload of an incoming message; null when the message was dropped
+    // because a type handler failed to decode it
+    const deserialize = (message: RpcMessage): RpcMessage | null => {
+        if (!serializer) return message;
+        if (message.type === MESSAGE_TYPE.BATCH) {
+            const messages = (message as BatchMessage).messages
+                .map((item) => (isRpcMessage(item) ? deserialize(item) : item))
+                .filter((item): item is RpcMessage => item !== null);
+            return { ...message, messages } as BatchMessage;
+        }
+        try {
+            return convertPayload(message, serializer.decode);
+        } catch (error) {
+            return handleUndecodable(message, error);
+        }
+    };
+
+    // A payload the remote side sent could not be decoded: answer calls with a
+    // validation error, and turn answers into an error for the pending call
+    const handleUndecodable = (message: RpcMessage, error: unknown): RpcMessage | null => {
+        logger.error('Failed to decode message:', message, error);
+        const issue = { message: `Cannot decode value: ${error instanceof Error ? error.message : String(error)}` };
+        switch (message.type) {
+            case MESSAGE_TYPE.REQUEST:
+                sendError(message.id, new RpcValidationError((message as RequestMessage).method, 'args', [issue]));
+                return null;
+            case MESSAGE_TYPE.CALLBACK:
+                sendError(message.id, new RpcValidationError('callback', 'args', [issue]));
+                return null;
+            case MESSAGE_TYPE.RESPONSE:
+            case MESSAGE_TYPE.STREAM_CHUNK:
+            case MESSAGE_TYPE.ERROR: {
+                const { __iframeRpc, v, channel, id } = message as ResponseMessage;
+                const replacement: ErrorMessage = {
+                    __iframeRpc,
+                    v,
+                    type: MESSAGE_TYPE.ERROR,
+                    channel,
+                    id,
+                    error: { message: `Invalid result: ${issue.message}`, code: 'VALIDATION_ERROR' },
+                };
+                return replacement;
+            }
+            default:
+                return null;
+        }
+    };
+
+    const routeMessage = (data: RpcMessage, event?: MessageEvent) => {
         logger.log('Received message:', data);
 
+        // Any message proves the remote side is alive
+        lastSeen = Date.now();
+        missedHeartbeats = 0;
+
+        // Messages without a version predate the field and speak version 1
+        const version = data.v ?? 1;
+        if (version > PROTOCOL_VERSION) {
+            handleNewerProtocol(data, version);
+            return;
+        }
+
         switch (data.type) {
             case MESSAGE_TYPE.REQUEST:
-                if (!event.source) {
-                    logger.error('Request received with null source');
-                    return;
-                }
-                handleRequest(data as RequestMessage, event.source as Window);
+                handleRequest(data as RequestMessage, sendMessage, event);
                 break;
             case MESSAGE_TYPE.RESPONSE:
-                handleResponse(data as ResponseMessage);
+                if (isFromPeer((data as ResponseMessage).id, event)) handleResponse(data as ResponseMessage);
                 break;
             case MESSAGE_TYPE.ERROR:
-                handleError(data as ErrorMessage);
+                if (isFromPeer((data as ErrorMessage).id, event)) handleError(data as ErrorMessage);
                 break;
             case MESSAGE_TYPE.FIRE_AND_FORGET:
-                handleFireAndForget(data as FireAndForgetMessage);
+                handleFireAndForget(data as FireAndForgetMessage, event);
+                break;
+            case MESSAGE_TYPE.SYN:
+                handleSyn(data as SynMessage, event);
+                break;
+            case MESSAGE_TYPE.ACK:
+                handleHandshake(data as AckMessage, event);
+                break;
+            case MESSAGE_TYPE.FIN:
+                handleDisconnect('remote bridge closed');
+                break;
+            case MESSAGE_TYPE.PING:
+                handlePing(data as PingMessage);
+                break;
+            case MESSAGE_TYPE.PONG:
+                handlePong(data as PongMessage);
+                break;
+            case MESSAGE_TYPE.CANCEL:
+                handleCancel(data as CancelMessage);
+                break;
+            case MESSAGE_TYPE.STREAM_START:
+                if (isFromPeer((data as StreamStartMessage).id, event)) handleStreamStart(data as StreamStartMessage);
+                break;
+            case MESSAGE_TYPE.STREAM_CHUNK:
+                activeStreams.get((data as StreamChunkMessage).id)?.reader.push((data as StreamChunkMessage).value);
+                break;
+            case MESSAGE_TYPE.STREAM_END:
+                activeStreams.get((data as StreamEndMessage).id)?.reader.end();
+                break;
+            case MESSAGE_TYPE.STREAM_PULL:
+                handleStreamPull(data as StreamPullMessage);
+                break;
+            case MESSAGE_TYPE.CALLBACK:
+                handleCallback(data as CallbackMessage);
+                break;
+            case MESSAGE_TYPE.CALLBACK_RELEASE:
+                localCallbacks.delete((data as CallbackReleaseMessage).callbackId);
+                break;
+            case MESSAGE_TYPE.PORT:
+                handlePort(data as PortMessage, event);
+                break;
+            case MESSAGE_TYPE.BATCH:
+                handleBatch(data as BatchMessage, event);
                 break;
+            default:
+                handleUnknownMessage(data);
+        }
+    };
+
+    // Message type added by a newer library version: ignore it, but answer it
+    // when it carries a request id so the sender fails fast instead of timing out
+    const handleUnknownMessage = (message: { type: string; id?: unknown }) => {
+        logger.log('Ignoring unsupported message type:', message.type);
+        if (typeof message.id === 'string') {
+            sendError(message.id, new RpcError(`Unsupported message type "${message.type}"`, 'UNSUPPORTED_MESSAGE'));
+        }
+    };
+
+    // Messages of a newer protocol version cannot be interpreted: refuse the
+    // connection they offer and reject the calls they make
+    const handleNewerProtocol = (message: RpcMessage, version: number) => {
+        const error = new RpcProtocolError(version);
+        switch (message.type) {
+            case MESSAGE_TYPE.SYN:
+                // Tell the remote bridge which version we speak
+                sendAck();
+                refuseConnection(error);
+                break;
+            case MESSAGE_TYPE.ACK:
+                refuseConnection(error);
+                break;
+            case MESSAGE_TYPE.REQUEST:
+            case MESSAGE_TYPE.CALLBACK:
+                sendError(message.id, error);
+                break;
+            default:
+                logger.error(error.message);
+        }
+    };
+
+    // Window the remote bridge runs in, recorded with each request
+    const getPeer = (): Window | undefined =>
+        (options.verifySource && windowHooks?.getTarget()) || undefined;
+
+    // Answers must come from the window their request was issued to, e.g. not
+    // from the previous document of an iframe that was replaced meanwhile
+    const isFromPeer = (id: string, event?: MessageEvent): boolean => {
+        const peer = pendingRequests.get(id)?.peer;
+        if (!peer || !event?.source || event.source === peer) return true;
+        logger.log('Ignoring answer from a different window than the request was sent to:', id);
+        return false;
+    };
+
+    const handleCancel = (message: CancelMessage) => {
+        const controller = activeRequests.get(message.id);
+        if (!controller) return;
+        logger.log('Request cancelled by caller:', message.id);
+        controller.abort();
+    };
+
+    // Always answer pings, even when heartbeat is disabled locally
+    const handlePing = (message: PingMessage) => {
+        const pong: PongMessage = {
+            __iframeRpc: true,
+            v: PROTOCOL_VERSION,
+            type: MESSAGE_TYPE.PONG,
+            channel: options.channel,
+            id: message.id,
+        };
+        sendMessage(pong);
+    };
+
+    const handlePong = (message: PongMessage) => {
+        if (!outstandingPing || outstandingPing.id !== message.id) return;
+        latency = Date.now() - outstandingPing.sentAt;
+        outstandingPing = null;
+    };
+
+    const sendPing = () => {
+        const id = generateId();
+        outstandingPing = { id, sentAt: Date.now() };
+        const message: PingMessage = {
+            __iframeRpc: true,
+            v: PROTOCOL_VERSION,
+            type: MESSAGE_TYPE.PING,
+            channel: options.channel,
+            id,
+        };
+        sendMessage(message);
+    };
+
+    const heartbeatTick = (missedBeforeDead: number) => {
+        // Nothing to monitor until the handshake completes
+        if (!isConnected) return;
+
+        if (outstandingPing) {
+            missedHeartbeats++;
+            if (missedHeartbeats === missedBeforeDead) {
+                handlePeerDead();
+                if (!isConnected) return;
+            }
+        }
+        sendPing();
+    };
+
+    // Remote side stopped answering: fail pending calls now instead of per-call timeouts
+    const handlePeerDead = () => {
+        logger.error(`Remote bridge missed ${missedHeartbeats} heartbeats, declaring it dead`);
+        if (options.handshake) {
+            handleDisconnect('heartbeat timeout');
+            // A hung page will answer once it recovers, which reconnects us
+            sendSyn();
+            return;
+        }
+        rejectPendingRequests((pending) => new RpcDisconnectedError(pending.method));
+        failStreams((stream) => new RpcDisconnectedError(stream.method));
+    };
+
+    const getLivenessState = (): LivenessState => {
+        if (options.heartbeat && missedHeartbeats >= options.heartbeat.missedBeforeDead) return 'dead';
+        if (missedHeartbeats > 0) return 'unresponsive';
+        return lastSeen === null ? 'unknown' : 'alive';
+    };
+
+    const failStreams = (createError: (stream: ActiveStream) => Error) => {
+        for (const [, stream] of activeStreams) {
+            stream.reader.fail(createError(stream));
+        }
+        activeStreams.clear();
+    };
+
+    const rejectPendingRequests = (createError: (pending: PendingRequest) => Error) => {
+        for (const [, pending] of pendingRequests) {
+            clearTimeout(pending.timeoutId);
+            pending.cleanup?.();
+            releaseCallbacks(pending.callbackIds);
+            pending.reject(createError(pending));
+        }
+        pendingRequests.clear();
+    };
+
+    // Remove a settled request and release what it holds
+    const takePending = (id: string): PendingRequest | undefined => {
+        const pending = pendingRequests.get(id);
+        if (!pending) return undefined;
+        clearTimeout(pending.timeoutId);
+        pending.cleanup?.();
+        releaseCallbacks(pending.callbackIds);
+        pendingRequests.delete(id);
+        return pending;
+    };
+
+    const releaseCallbacks = (callbackIds: string[] | undefined) => {
+        callbackIds?.forEach((callbackId) => localCallbacks.delete(callbackId));
+    };
+
+    // Replace function arguments with references the remote side can call back
+    const encodeArgs = (args: unknown[]): { args: unknown[]; callbackIds: string[] } => {
+        const callbackIds: string[] = [];
+        const encoded = encodeCallbacks(args, (fn) => {
+            const callbackId = generateId();
+            localCallbacks.set(callbackId, fn);
+            callbackIds.push(callbackId);
+            return callbackId;
+        });
+        return { args: encoded, callbackIds };
+    };
+
+    // Turn callback references from the remote side into callable proxies
+    const decodeArgs = (args: unknown[]): unknown[] =>
+        decodeCallbacks(args, (callbackId) => {
+            const proxy = (...callbackArgs: unknown[]) => invokeCallback(callbackId, callbackArgs);
+            callbackRegistry?.register(proxy, callbackId);
+            return proxy;
+        });
+
+    // Call a function the remote side passed as an argument
+    const invokeCallback = (callbackId: string, args: unknown[]): Promise<unknown> => {
+        if (isDestroyed) {
+            return Promise.reject(new RpcError('Bridge has been destroyed', 'DESTROYED'));
+        }
+
+        const result = new Promise<unknown>((resolve, reject) => {
+            const id = generateId();
+            const timeoutId = setTimeout(() => {
+                pendingRequests.delete(id);
+                reject(new RpcTimeoutError('callback', options.timeout));
+            }, options.timeout);
+
+            pendingRequests.set(id, { method: 'callback', resolve, reject, timeoutId, peer: getPeer() });
+
+            const message: CallbackMessage = {
+                __iframeRpc: true,
+                v: PROTOCOL_VERSION,
+                type: MESSAGE_TYPE.CALLBACK,
+                channel: options.channel,
+                id,
+                callbackId,
+                args,
+            };
+            sendToRemote(message, collectTransferables(args));
+        });
+
+        // Handlers often fire progress callbacks without awaiting them
+        result.catch((error) => logger.error('Error in remote callback:', error));
+        return result;
+    };
+
+    const handleCallback = async (message: CallbackMessage) => {
+        const { id, callbackId, args } = message;
+        const callback = localCallbacks.get(callbackId);
+
+        if (!callback) {
+            sendError(id, new RpcError('Callback has been released', 'CALLBACK_RELEASED'));
+            return;
         }
+
+        try {
+            sendResponse(id, await callback(...args));
+        } catch (error) {
+            sendError(id, error instanceof Error ? error : new Error(String(error)));
+        }
+    };
+
+    // Remote bridge started listening: acknowledge and consider it connected
+    const handleSyn = (message: SynMessage, event?: MessageEvent) => {
+        sendAck();
+
+        // The remote bridge only says hello while disconnected, so it no longer
+        // listens on the port we share with it
+        if (usingPort && isConnected && message.session === remoteSession) {
+            handleDisconnect('remote bridge reconnecting');
+        }
+        handleHandshake(message, event);
+    };
+
+    const sendAck = () => {
+        const ack: AckMessage = {
+            __iframeRpc: true,
+            v: PROTOCOL_VERSION,
+            type: MESSAGE_TYPE.ACK,
+            channel: options.channel,
+            session,
+            messageChannel: wantsPort,
+            ...handshakeDetails,
+        };
+        sendMessage(ack);
+    };
+
+    // Remote bridge answered the handshake: connect directly, or over a MessageChannel
+    // when both sides support it. The parent creates the channel, the iframe waits for it.
+    const handleHandshake = (message: SynMessage | AckMessage, event?: MessageEvent) => {
+        const peerSession = message.session;
+        const problems = checkRemoteContract(message);
+        if (problems.length > 0) {
+            refuseConnection(new RpcContractMismatchError(problems));
+            return;
+        }
+
+        // Only send custom types the remote side decodes; older versions decode none
+        if (serializer) remoteTypes = new Set(message.types);
+        if (compression) remoteCompression = new Set(message.compression);
+
+        usingPort = wantsPort && message.messageChannel === true;
+        if (!usingPort) {
+            markConnected(peerSession);
+            return;
+        }
+
+        // Duplicate ACK, e.g. after both sides sent a SYN at the same time
+        if (isConnected && peerSession === remoteSession) return;
+        if (isConnected) handleDisconnect('remote bridge restarted');
+        if (side === 'iframe') return;
+
+        const channel = new MessageChannel();
+        const portMessage: PortMessage = {
+            __iframeRpc: true,
+            v: PROTOCOL_VERSION,
+            type: MESSAGE_TYPE.PORT,
+            channel: options.channel,
+            session,
+            port: channel.port2,
+        };
+        sendMessage(portMessage, [channel.port2]);
+        openPort(channel.port1, event);
+        markConnected(peerSession);
+    };
+
+    // Compare the contract announced by the remote bridge with what we expect
+    const checkRemoteContract = (message: SynMessage | AckMessage): string[] => {
+        const { remote, isCompatible } = options.contracts;
+        const problems = remote && message.manifest ? compareManifest(remote, message.manifest) : [];
+        if (isCompatible && !isCompatible(message.contractVersion)) {
+            problems.push(message.contractVersion === undefined
+                ? 'the remote side has no contract version'
+                : `contract version "${message.contractVersion}" of the remote side is not compatible`);
+        }
+        return problems;
+    };
+
+    // The remote bridge does not provide what we expect to call: stay disconnected
+    // and fail everything waiting for the connection
+    const refuseConnection = (error: Error) => {
+        logger.error(error.message);
+        handleDisconnect('incompatible remote bridge');
+        rejectPendingRequests(() => error);
+        outbox.length = 0;
+        connection.reject(error);
+        connection = createDeferred<void>();
+        ready.reject(error);
+        refusal = error;
     };
 
-    const handleRequest = async (message: RequestMessage, source: Window) => {
-        const { id, method, args } = message;
+    // The parent handed us the MessagePort to use from now on
+    const handlePort = (message: PortMessage, event?: MessageEvent) => {
+        if (!wantsPort || side !== 'iframe' || !message.port) return;
+        usingPort = true;
+        openPort(message.port, event);
+        markConnected(message.session);
+    };
+
+    const openPort = (port: MessagePort, event?: MessageEvent) => {
+        closePort();
+        portEvent = event;
+        portTransport = createMessagePortTransport(port);
+        unsubscribePort = portTransport.subscribe(handlePortMessage);
+    };
+
+    const closePort = () => {
+        if (!portTransport) return;
+        unsubscribePort?.();
+        portTransport.close?.();
+        portTransport = null;
+        portEvent = undefined;
+    };
+
+    const markConnected = (peerSession: string) => {
+        // A new session on an established connection means the remote bridge was
+        // recreated (e.g. the iframe reloaded), so requests sent to the old one are lost
+        if (isConnected && remoteSession !== undefined && peerSession !== remoteSession) {
+            handleDisconnect('remote bridge restarted');
+        }
+        remoteSession = peerSession;
+        refusal = null;
+
+        if (isConnected) return;
+        isConnected = true;
+        connectedWindow = windowHooks?.getTarget() ?? null;
+        logger.log('Connected to remote bridge');
+        connection.resolve();
+        flushOutbox();
+        emit(hasConnected ? 'reconnect' : 'connect');
+        hasConnected = true;
+    };
+
+    // Remote bridge went away: fail in-flight calls and wait for a new handshake.
+    // Calls made while disconnected are queued like before the first connection.
+    const handleDisconnect = (reason: string) => {
+        if (!isConnected || !options.handshake) return;
+        isConnected = false;
+        connectedWindow = null;
+        remoteSession = undefined;
+        closePort();
+        connection = createDeferred<void>();
+        outstandingPing = null;
+        logger.log(`Disconnected from remote bridge (${reason})`);
+
+        rejectPendingRequests((pending) => new RpcDisconnectedError(pending.method));
+        failStreams((stream) => new RpcDisconnectedError(stream.method));
+        localCallbacks.clear();
+
+        // Nobody is left to consume streams produced for the remote side
+        for (const id of streamProducers.keys()) activeRequests.get(id)?.abort();
+
+        emit('disconnect');
+    };
+
+    // Detect the iframe being replaced or navigated to a new browsing context
+    const checkTarget = () => {
+        if (isConnected && connectedWindow && windowHooks?.getTarget() !== connectedWindow) {
+            handleDisconnect('target window changed');
+            sendSyn();
+        }
+    };
+
+    // The iframe (re)loaded: make sure the new document learns about us
+    const handleTargetLoad = () => {
+        if (isConnected) {
+            checkTarget();
+        } else {
+            sendSyn();
+        }
+    };
+
+    // Send messages queued while waiting for the handshake
+    const flushOutbox = () => {
+        if (!isTargetAvailable()) return;
+        while (outbox.length > 0) {
+            const { message, transfer } = outbox.shift()!;
+            sendMessage(message, transfer);
+        }
+    };
+
+    // Handle the messages of a batch. The first replies to its requests (for
+    // streams, the start message) are collected and sent back together at the
+    // end of the turn they are ready in, so a slow handler does not hold back
+    // the others; later messages are sent as they come.
+    const handleBatch = (message: BatchMessage, event?: MessageEvent) => {
+        const requests: RequestMessage[] = [];
+        for (const item of message.messages) {
+            if (!isRpcMessage(item) || item.channel !== options.channel) continue;
+            if (item.type === MESSAGE_TYPE.REQUEST) {
+                requests.push(item as RequestMessage);
+            } else {
+                routeMessage(item, event);
+            }
+        }
+
+        let replies: QueuedMessage[] = [];
+        let remaining = requests.length;
+        const flushReplies = () => {
+            const ready = replies;
+            replies = [];
+            if (!isDestroyed) sendBatch(ready, sendMessage);
+        };
+
+        for (const request of requests) {
+            let hasReplied = false;
+            const reply: MessageSender = (replyMessage, transfer) => {
+                if (hasReplied) {
+                    sendMessage(replyMessage, transfer);
+                    return;
+                }
+                hasReplied = true;
+                replies.push({ message: replyMessage, transfer });
+                if (replies.length === 1) setTimeout(flushReplies, 0);
+            };
+            handleRequest(request, reply, event).finally(() => {
+                hasReplied = true;
+                if (--remaining === 0 && replies.length > 0) flushReplies();
+            });
+        }
+    };
+
+    const handleRequest = async (
+        message: RequestMessage,
+        send: MessageSender = sendMessage,
+        event?: MessageEvent
+    ) => {
+        const { id, method } = message;
+        if (method === RESERVED_METHOD.DESCRIBE) {
+            sendResponse(id, describeLocal(), send);
+            return;
+        }
         const handler = handlers[method as keyof TLocal];
 
         if (!handler) {
-            sendError(source, id, new RpcMethodNotFoundError(method));
+            sendError(id, new RpcMethodNotFoundError(method), send);
+            return;
+        }
+
+        if (!isPermitted(method, event?.origin)) {
+            sendError(id, new RpcForbiddenError(method, event?.origin), send);
             return;
         }
 
+        const controller = new AbortController();
+        activeRequests.set(id, controller);
+        const context = createHandlerContext(controller.signal, message, event);
+
         try {
-            const result = await (handler as AnyMethod)(...args);
-            sendResponse(source, id, result);
+            let args = decodeArgs(message.args);
+            const argsSchema = findSchema(options.schemas.args, method);
+            if (argsSchema) args = await validateArgs(method, argsSchema, args);
+            const call: IncomingCall = { kind: 'request', method, args, context };
+            const result = await runMiddleware(
+                handlerMiddleware,
+                call,
+                () => invokeHandler(handler as AnyMethod, call.args, call.context)
+            );
+            // The caller has already given up on a cancelled request
+            if (controller.signal.aborted) return;
+            if (isAsyncIterable(result)) {
+                await produceStream(id, result, controller.signal, send);
+            } else {
+                sendResponse(id, result, send);
+            }
         } catch (error) {
-            sendError(source, id, error instanceof Error ? error : new Error(String(error)));
+            if (!controller.signal.aborted) {
+                sendError(id, error instanceof Error ? error : new Error(String(error)), send);
+            }
+        } finally {
+            activeRequests.delete(id);
+        }
+    };
+
+    // Origins allowed to call restricted methods, see `permissions`
+    const permissionMatchers = new Map(
+        Object.entries(options.permissions).map(([method, allowed]) => [method, createOriginMatcher(allowed)])
+    );
+
+    // Restricted methods can only be called from a known, allowed origin
+    const isPermitted = (method: string, origin: string | undefined): boolean => {
+        const matches = permissionMatchers.get(method);
+        return !matches || (origin !== undefined && matches(origin));
+    };
+
+    // Context handed to a local handler, describing the call and where it came from
+    const createHandlerContext = (
+        signal: AbortSignal,
+        message: RequestMessage | FireAndForgetMessage,
+        event?: MessageEvent
+    ): HandlerContext => ({
+        signal,
+        id: 'id' in message ? message.id : undefined,
+        meta: message.meta ?? {},
+        origin: event?.origin,
+        source: event?.source ?? undefined,
+    });
+
+    // Answer `describeRemote()` of the remote side
+    const describeLocal = (): RemoteDescription => ({
+        methods: Object.keys(handlers).filter((name) => typeof handlers[name] === 'function'),
+        protocolVersion: PROTOCOL_VERSION,
+        ...(options.contracts.version !== undefined && { contractVersion: options.contracts.version }),
+    });
+
+    // Send the values of an async iterable as stream messages, pausing whenever
+    // the consumer has no credit left
+    const produceStream = async (
+        id: string,
+        iterable: AsyncIterable<unknown>,
+        signal: AbortSignal,
+        send: MessageSender
+    ) => {
+        const producer: StreamProducer = { credit: 0, wake: null };
+        streamProducers.set(id, producer);
+        const iterator = iterable[Symbol.asyncIterator]();
+
+        const waitForCredit = () => new Promise<void>((resolve) => {
+            const wake = () => {
+                signal.removeEventListener('abort', wake);
+                producer.wake = null;
+                resolve();
+            };
+            producer.wake = wake;
+            signal.addEventListener('abort', wake);
+        });
+
+        const start: StreamStartMessage = {
+            __iframeRpc: true,
+            v: PROTOCOL_VERSION,
+            type: MESSAGE_TYPE.STREAM_START,
+            channel: options.channel,
+            id,
+        };
+        send(start);
+
+        try {
+            for (;;) {
+                while (producer.credit <= 0 && !signal.aborted) await waitForCredit();
+                if (signal.aborted) break;
+
+                const { value, done } = await iterator.next();
+                if (signal.aborted) break;
+
+                if (done) {
+                    const end: StreamEndMessage = {
+                        __iframeRpc: true,
+                        v: PROTOCOL_VERSION,
+                        type: MESSAGE_TYPE.STREAM_END,
+                        channel: options.channel,
+                        id,
+                    };
+                    send(end);
+                    return;
+                }
+
+                producer.credit--;
+                const chunk: StreamChunkMessage = {
+                    __iframeRpc: true,
+                    v: PROTOCOL_VERSION,
+                    type: MESSAGE_TYPE.STREAM_CHUNK,
+                    channel: options.channel,
+                    id,
+                    value,
+                };
+                send(chunk, collectTransferables(value));
+            }
+
+            // Cancelled by the caller: let the iterable run its cleanup (finally blocks)
+            await iterator.return?.();
+        } finally {
+            streamProducers.delete(id);
+        }
+    };
+
+    const handleStreamPull = (message: StreamPullMessage) => {
+        const producer = streamProducers.get(message.id);
+        if (!producer) return;
+        producer.credit += message.count;
+        producer.wake?.();
+    };
+
+    const handleStreamStart = (message: StreamStartMessage) => {
+        const { id } = message;
+        const pending = pendingRequests.get(id);
+        if (!pending) {
+            logger.error('No pending request for stream:', id);
+            return;
         }
+
+        // Callbacks passed with the call stay usable until the stream closes
+        const { callbackIds } = pending;
+        pending.callbackIds = undefined;
+        takePending(id);
+
+        const { method, signal } = pending;
+        const onAbort = () => {
+            cancelRequest(id);
+            reader.fail(new RpcAbortedError(method));
+        };
+
+        const reader = createStreamReader({
+            highWaterMark: options.streamHighWaterMark,
+            pull: (count) => {
+                const pull: StreamPullMessage = {
+                    __iframeRpc: true,
+                    v: PROTOCOL_VERSION,
+                    type: MESSAGE_TYPE.STREAM_PULL,
+                    channel: options.channel,
+                    id,
+                    count,
+                };
+                sendMessage(pull);
+            },
+            cancel: () => cancelRequest(id),
+            close: () => {
+                activeStreams.delete(id);
+                signal?.removeEventListener('abort', onAbort);
+                releaseCallbacks(callbackIds);
+            },
+        });
+
+        activeStreams.set(id, { method, reader });
+        signal?.addEventListener('abort', onAbort, { once: true });
+        pending.resolve(reader);
+    };
+
+    // Check arguments against the handler's schema, returning the validated values
+    const validateArgs = async (
+        method: string,
+        schema: StandardSchemaV1,
+        args: unknown[]
+    ): Promise<unknown[]> => {
+        const result = await validateSchema(schema, args);
+        if (result.issues) throw new RpcValidationError(method, 'args', result.issues);
+        return result.value as unknown[];
     };
 
     const handleResponse = (message: ResponseMessage) => {
-        const pending = pendingRequests.get(message.id);
+        const pending = takePending(message.id);
         if (!pending) {
             logger.error('No pending request for response:', message.id);
             return;
         }
 
-        clearTimeout(pending.timeoutId);
-        pendingRequests.delete(message.id);
-        pending.resolve(message.result);
+        const schema = findSchema(options.schemas.results, pending.method);
+        if (!schema) {
+            pending.resolve(message.result);
+            return;
+        }
+
+        validateSchema(schema, message.result).then(
+            (result) => {
+                if (result.issues) {
+                    pending.reject(new RpcValidationError(pending.method, 'result', result.issues));
+                } else {
+                    pending.resolve(result.value);
+                }
+            },
+            (error) => pending.reject(error instanceof Error ? error : new Error(String(error)))
+        );
     };
 
     const handleError = (message: ErrorMessage) => {
-        const pending = pendingRequests.get(message.id);
+        // Errors thrown mid-stream end the stream
+        const stream = activeStreams.get(message.id);
+        if (stream) {
+            stream.reader.fail(options.errorCodec.decode(message.error));
+            return;
+        }
+
+        const pending = takePending(message.id);
         if (!pending) {
             logger.error('No pending request for error:', message.id);
             return;
         }
 
-        clearTimeout(pending.timeoutId);
-        pendingRequests.delete(message.id);
-        pending.reject(
-            new RpcError(message.error.message, message.error.code, message.error.stack)
-        );
+        pending.reject(options.errorCodec.decode(message.error));
     };
 
-    const handleFireAndForget = (message: FireAndForgetMessage) => {
+    const handleFireAndForget = (message: FireAndForgetMessage, event?: MessageEvent) => {
         const handler = handlers[message.method as keyof TLocal];
         if (!handler) {
             logger.error('Handler not found for fire-and-forget:', message.method);
             return;
         }
 
+        if (!isPermitted(message.method, event?.origin)) {
+            logger.error(new RpcForbiddenError(message.method, event?.origin).message);
+            return;
+        }
+
+        // Notifications cannot be cancelled, but handlers get the same context shape
+        const context = createHandlerContext(new AbortController().signal, message, event);
+        const argsSchema = findSchema(options.schemas.args, message.method);
+
         // Handle both sync and async handlers, catching any rejections
         Promise.resolve()
-            .then(() => (handler as AnyMethod)(...message.args))
+            .then(() => {
+                const args = decodeArgs(message.args);
+                return argsSchema ? validateArgs(message.method, argsSchema, args) : args;
+            })
+            .then((args) => {
+                const call: IncomingCall = { kind: 'notify', method: message.method, args, context };
+                return runMiddleware(
+                    handlerMiddleware,
+                    call,
+                    () => invokeHandler(handler as AnyMethod, call.args, call.context)
+                );
+            })
             .catch((error) => logger.error('Error in fire-and-forget handler:', error));
     };
 
-    const sendMessage = (targetWindow: Window, message: RpcMessage) => {
+    const sendMessage = (message: RpcMessage, transfer?: Transferable[]) => {
         logger.log('Sending message:', message);
-        targetWindow.postMessage(message, options.targetOrigin);
+        // The handshake and port handoff always use the main transport
+        const target = portTransport && !HANDSHAKE_MESSAGE_TYPES.has(message.type)
+            ? portTransport
+            : transport;
+        try {
+            const serialized = serialize(message);
+            if (!isPipelineAsync) {
+                target.send(serialized, transfer);
+                return;
+            }
+
+            outgoing = outgoing
+                .then(async () => {
+                    const signed = authenticator ? await authenticator.sign(serialized) : serialized;
+                    const prepared = await compress(signed, transfer);
+                    target.send(prepared.message, prepared.transfer);
+                })
+                .catch((error) => handleSendFailure(message, error));
+        } catch (error) {
+            handleSendFailure(message, error);
+        }
+    };
+
+    // A message could not be encoded, signed, compressed or posted (e.g. a value
+    // structured cloning cannot copy): fail the call waiting on it, or tell the
+    // caller of a request we answer instead of letting it time out
+    const handleSendFailure = (message: RpcMessage, error: unknown) => {
+        logger.error('Failed to send message:', message, error);
+        if (isDestroyed) return;
+        const failure = error instanceof Error ? error : new Error(String(error));
+        switch (message.type) {
+            case MESSAGE_TYPE.REQUEST:
+            case MESSAGE_TYPE.CALLBACK:
+                takePending(message.id)?.reject(failure);
+                break;
+            case MESSAGE_TYPE.RESPONSE:
+            case MESSAGE_TYPE.STREAM_START:
+            case MESSAGE_TYPE.STREAM_CHUNK:
+            case MESSAGE_TYPE.STREAM_END:
+                // Stop a stream whose values cannot be sent
+                activeRequests.get(message.id)?.abort();
+                sendError(message.id, failure);
+                break;
+            case MESSAGE_TYPE.ERROR: {
+                const { error: sent } = message as ErrorMessage;
+                // Last resort: the message and code of the error alone always get through
+                if (Object.keys(sent).some((key) => key !== 'message' && key !== 'code')) {
+                    sendMessage({ ...message, error: toPlainError(sent) });
+                }
+                break;
+            }
+            case MESSAGE_TYPE.BATCH:
+                for (const item of (message as BatchMessage).messages) handleSendFailure(item, error);
+                break;
+        }
+    };
+
+    // Whether the remote window exists (an iframe may have no contentWindow yet)
+    const isTargetAvailable = () => !windowHooks || windowHooks.getTarget() !== null;
+
+    // Tell the remote side to abort a request, or drop it if it was never sent
+    const cancelRequest = (id: string) => {
+        if (dropQueuedRequest(id)) return;
+
+        const message: CancelMessage = {
+            __iframeRpc: true,
+            v: PROTOCOL_VERSION,
+            type: MESSAGE_TYPE.CANCEL,
+            channel: options.channel,
+            id,
+        };
+        sendMessage(message);
+    };
+
+    // Remove a request that has not been sent yet, alone or inside a batch
+    const dropQueuedRequest = (id: string): boolean => {
+        const isRequest = (message: RpcMessage) => message.type === MESSAGE_TYPE.REQUEST && message.id === id;
+
+        for (const queue of [batchQueue ?? [], outbox]) {
+            const index = queue.findIndex(({ message }) => isRequest(message));
+            if (index !== -1) {
+                queue.splice(index, 1);
+                return true;
+            }
+        }
+
+        for (const { message } of outbox) {
+            if (message.type !== MESSAGE_TYPE.BATCH) continue;
+            const index = message.messages.findIndex(isRequest);
+            if (index !== -1) {
+                message.messages.splice(index, 1);
+                return true;
+            }
+        }
+        return false;
+    };
+
+    // Send queued messages as one batch (or alone, when there is only one)
+    const sendBatch = (queued: QueuedMessage[], send: MessageSender) => {
+        if (queued.length === 0) return;
+        if (queued.length === 1) {
+            send(queued[0].message, queued[0].transfer);
+            return;
+        }
+        const message: BatchMessage = {
+            __iframeRpc: true,
+            v: PROTOCOL_VERSION,
+            type: MESSAGE_TYPE.BATCH,
+            channel: options.channel,
+            messages: queued.map((entry) => entry.message),
+        };
+        send(message, mergeTransferables(...queued.map((entry) => entry.transfer)));
+    };
+
+    const flushBatch = () => {
+        const queued = batchQueue;
+        batchQueue = null;
+        if (queued) sendBatch(queued, postToRemote);
+    };
+
+    // Send a call or notification, collecting it into the current batch if any
+    const sendToRemote = (message: RpcMessage, transfer?: Transferable[]) => {
+        const isBatchable = message.type === MESSAGE_TYPE.REQUEST || message.type === MESSAGE_TYPE.FIRE_AND_FORGET;
+        if (isBatchable && !batchQueue && options.autoBatch) {
+            batchQueue = [];
+            Promise.resolve().then(flushBatch);
+        }
+        if (isBatchable && batchQueue) {
+            batchQueue.push({ message, transfer });
+            return;
+        }
+        postToRemote(message, transfer);
+    };
+
+    const batch = <T>(build: (caller: BridgeCaller<TRemote>) => T): T => {
+        // Already collecting (nested batch or pending auto-batch): join that batch
+        if (batchQueue) return build(caller);
+        batchQueue = [];
+        const hold = { waiting: 0, isBuilt: false };
+        batchHold = hold;
+        try {
+            return build(caller);
+        } finally {
+            hold.isBuilt = true;
+            releaseBatch(hold);
+        }
     };
 
-    const sendResponse = (targetWindow: Window, id: string, result: unknown) => {
+    // Keep the batch being collected open for a call until its middleware has
+    // sent it; returns the function to call once it has, or failed
+    const holdBatch = (): (() => void) => {
+        const hold = batchHold;
+        if (!hold) return () => { };
+        hold.waiting++;
+        let isReleased = false;
+        return () => {
+            if (isReleased) return;
+            isReleased = true;
+            hold.waiting--;
+            releaseBatch(hold);
+        };
+    };
+
+    const releaseBatch = (hold: { waiting: number; isBuilt: boolean }) => {
+        if (batchHold !== hold || !hold.isBuilt || hold.waiting > 0) return;
+        batchHold = null;
+        flushBatch();
+    };
+
+    // Send a message to the remote side, queuing it until connected
+    const postToRemote = (message: RpcMessage, transfer?: Transferable[]) => {
+        if (options.handshake) checkTarget();
+        if (!isConnected || !isTargetAvailable()) {
+            logger.log('Queuing message until connected:', message);
+            outbox.push({ message, transfer });
+            return;
+        }
+        sendMessage(message, transfer);
+    };
+
+    const sendFin = () => {
+        const message: FinMessage = {
+            __iframeRpc: true,
+            v: PROTOCOL_VERSION,
+            type: MESSAGE_TYPE.FIN,
+            channel: options.channel,
+        };
+        sendMessage(message);
+    };
+
+    const sendSyn = () => {
+        const message: SynMessage = {
+            __iframeRpc: true,
+            v: PROTOCOL_VERSION,
+            type: MESSAGE_TYPE.SYN,
+            channel: options.channel,
+            session,
+            messageChannel: wantsPort,
+            ...handshakeDetails,
+        };
+        sendMessage(message);
+    };
+
+    const sendResponse = (id: string, result: unknown, send: MessageSender = sendMessage) => {
         const message: ResponseMessage = {
             __iframeRpc: true,
+            v: PROTOCOL_VERSION,
             type: MESSAGE_TYPE.RESPONSE,
             channel: options.channel,
             id,
             result,
         };
-        sendMessage(targetWindow, message);
+        send(message, collectTransferables(result));
     };
 
-    const sendError = (targetWindow: Window, id: string, error: Error) => {
+    const sendError = (id: string, error: Error, send: MessageSender = sendMessage) => {
         const message: ErrorMessage = {
             __iframeRpc: true,
+            v: PROTOCOL_VERSION,
             type: MESSAGE_TYPE.ERROR,
             channel: options.channel,
             id,
-            error: {
-                message: error.message,
-                ...(error instanceof RpcError && error.code ? { code: error.code } : {}),
-                // Only include stack traces if explicitly enabled (security consideration)
-                ...(options.includeStackTraces && error.stack ? { stack: error.stack } : {}),
-            },
+            error: encodeError(error),
         };
-        sendMessage(targetWindow, message);
+        send(message);
+    };
+
+    // Wire form of an error thrown by a handler. Codecs may fail or produce data
+    // structured cloning cannot copy; the message and code are sent instead.
+    const encodeError = (error: Error): SerializedError => {
+        try {
+            const encoded = options.errorCodec.encode(error);
+            if (isCloneable(encoded)) return encoded;
+        } catch (encodeFailure) {
+            logger.error('Failed to encode error:', encodeFailure);
+        }
+        return toPlainError(error);
+    };
+
+    const toPlainError = (error: Error | SerializedError): SerializedError => {
+        const { code } = error as Error & { code?: unknown };
+        return { message: String(error.message), ...(typeof code === 'string' && { code }) };
     };
 
     // Execute a single RPC call (without retry)
     const executeCall = <K extends keyof TRemote>(
         method: K,
-        args: unknown[]
+        args: unknown[],
+        callOptions: ResolvedCallOptions
     ): Promise<UnwrapPromise<ReturnType<TRemote[K]>>> => {
         return new Promise((resolve, reject) => {
+            const { signal, timeout } = callOptions;
+            if (signal?.aborted) {
+                reject(new RpcAbortedError(String(method)));
+                return;
+            }
+            if (refusal) {
+                reject(refusal);
+                return;
+            }
+
             const id = generateId();
 
             const timeoutId = setTimeout(() => {
-                pendingRequests.delete(id);
-                reject(new RpcTimeoutError(String(method), options.timeout));
-            }, options.timeout);
+                takePending(id);
+                reject(new RpcTimeoutError(String(method), timeout));
+            }, timeout);
 
-            pendingRequests.set(id, {
+            const encoded = encodeArgs(args);
+            const pending: PendingRequest = {
+                method: String(method),
                 resolve: resolve as (value: unknown) => void,
                 reject,
-                timeoutId
-            });
+                timeoutId,
+                signal,
+                callbackIds: encoded.callbackIds,
+                peer: getPeer(),
+            };
+
+            if (signal) {
+                const onAbort = () => {
+                    if (!pendingRequests.has(id)) return;
+                    takePending(id);
+                    cancelRequest(id);
+                    reject(new RpcAbortedError(String(method)));
+                };
+                signal.addEventListener('abort', onAbort, { once: true });
+                pending.cleanup = () => signal.removeEventListener('abort', onAbort);
+            }
+
+            pendingRequests.set(id, pending);
 
             const message: RequestMessage = {
                 __iframeRpc: true,
+                v: PROTOCOL_VERSION,
                 type: MESSAGE_TYPE.REQUEST,
                 channel: options.channel,
                 id,
                 method: method as string,
-                args,
+                args: encoded.args,
+                ...metaField(callOptions.meta),
             };
 
-            sendMessage(target, message);
+            sendToRemote(message, callOptions.transfer);
         });
     };
 
     // Calculate delay for retry attempt with exponential backoff
-    const calculateRetryDelay = (attempt: number): number => {
-        const { retryDelay, retryBackoff, maxRetryDelay } = options.retry;
+    const calculateRetryDelay = (attempt: number, retry: ResolvedCallOptions['retry']): number => {
+        const { retryDelay, retryBackoff, maxRetryDelay } = retry;
         const delay = retryDelay * Math.pow(retryBackoff, attempt);
         return Math.min(delay, maxRetryDelay);
     };
 
     const callMethod = <K extends keyof TRemote>(
         method: K,
-        args: unknown[]
+        args: unknown[],
+        callOptions: CallOptions = {}
     ): Promise<UnwrapPromise<ReturnType<TRemote[K]>>> => {
         if (isDestroyed) {
             return Promise.reject(new RpcError('Bridge has been destroyed', 'DESTROYED'));
         }
 
-        const { maxRetries, isRetryable } = options.retry;
+        // Not in the remote contract: fail locally instead of waiting for the remote side
+        if (
+            options.contracts.remote
+            && method !== RESERVED_METHOD.DESCRIBE
+            && !hasMethod(options.contracts.remote, String(method))
+        ) {
+            return Promise.reject(new RpcMethodNotFoundError(String(method)));
+        }
+
+        const call: OutgoingCall = {
+            kind: 'request',
+            method: String(method),
+            args,
+            meta: { ...callOptions.meta },
+            options: callOptions,
+        };
+        const release = holdBatch();
+        const result = runMiddleware(callMiddleware, call, () => {
+            try {
+                return performCall(method, call.args, { ...call.options, meta: call.meta });
+            } finally {
+                release();
+            }
+        });
+        // Middleware may also short-circuit or fail before the call is sent
+        result.then(release, release);
+        return result as Promise<UnwrapPromise<ReturnType<TRemote[K]>>>;
+    };
+
+    // Make a call, retrying it as configured
+    const performCall = <K extends keyof TRemote>(
+        method: K,
+        args: unknown[],
+        callOptions: CallOptions
+    ): Promise<UnwrapPromise<ReturnType<TRemote[K]>>> => {
+        const resolved = resolveCallOptions(options, String(method), callOptions);
+        resolved.transfer = mergeTransferables(resolved.transfer, collectTransferables(args));
+        const { maxRetries, isRetryable } = resolved.retry;
+        const { signal, transfer } = resolved;
 
-        // If no retries configured, execute directly
-        if (maxRetries <= 0) {
-            return executeCall(method, args);
+        // If no retries configured, execute directly. Transferred objects are
+        // detached by the first attempt, so those calls cannot be retried either.
+        if (maxRetries <= 0 || (transfer && transfer.length > 0)) {
+            return executeCall(method, args, resolved);
         }
 
         // Execute with retry logic
@@ -255,20 +1770,22 @@ export function createBridge<
 
             for (let attempt = 0; attempt <= maxRetries; attempt++) {
                 try {
-                    return await executeCall(method, args);
+                    return await executeCall(method, args, resolved);
                 } catch (error) {
                     lastError = error instanceof Error ? error : new Error(String(error));
 
-                    // Check if we should retry
+                    // Check if we should retry (cancelled calls never are)
                     const isLastAttempt = attempt === maxRetries;
-                    const shouldRetry = !isLastAttempt && isRetryable(lastError);
+                    const shouldRetry = !isLastAttempt
+                        && !(lastError instanceof RpcAbortedError)
+                        && isRetryable(lastError);
 
                     if (!shouldRetry) {
                         throw lastError;
                     }
 
                     // Calculate delay and wait before retrying
-                    const delay = calculateRetryDelay(attempt);
+                    const delay = calculateRetryDelay(attempt, resolved.retry);
                     logger.log(
                         `Retry ${attempt + 1}/${maxRetries} for "${String(method)}" after ${delay}ms`,
                         `(${lastError.message})`
@@ -279,6 +1796,11 @@ export function createBridge<
                     if (isDestroyed) {
                         throw new RpcError('Bridge has been destroyed', 'DESTROYED');
                     }
+
+                    // Check if the call was cancelled during the delay
+                    if (signal?.aborted) {
+                        throw new RpcAbortedError(String(method));
+                    }
                 }
             }
 
@@ -287,53 +1809,185 @@ export function createBridge<
         })();
     };
 
-    const notify = <K extends VoidMethods<TRemote>>(
-        method: K,
-        ...args: Parameters<TRemote[K]>
-    ) => {
+    const sendNotification = (method: string, args: unknown[], callOptions: CallOptions = {}) => {
         if (isDestroyed) {
             logger.error('Cannot notify: bridge has been destroyed');
             return;
         }
 
+        if (callOptions.signal?.aborted) {
+            logger.log('Skipping aborted notification:', method);
+            return;
+        }
+
+        if (options.contracts.remote && !hasMethod(options.contracts.remote, method)) {
+            logger.error(`Cannot notify: method "${method}" is not in the remote contract`);
+            return;
+        }
+
+        const call: OutgoingCall = {
+            kind: 'notify',
+            method,
+            args,
+            meta: { ...callOptions.meta },
+            options: callOptions,
+        };
+        const release = holdBatch();
+        runMiddleware(callMiddleware, call, () => {
+            try {
+                postNotification(method, call.args, { ...call.options, meta: call.meta });
+            } finally {
+                release();
+            }
+        })
+            .catch((error) => logger.error('Error in notification middleware:', error))
+            .finally(release);
+    };
+
+    const postNotification = (method: string, args: unknown[], callOptions: CallOptions) => {
+        if (refusal) {
+            logger.error(`Cannot notify: ${refusal.message}`);
+            return;
+        }
+
         const message: FireAndForgetMessage = {
             __iframeRpc: true,
+            v: PROTOCOL_VERSION,
             type: MESSAGE_TYPE.FIRE_AND_FORGET,
             channel: options.channel,
-            method: method as string,
-            args,
+            method,
+            // Callbacks passed to notifications live until the remote proxy is collected
+            args: encodeArgs(args).args,
+            ...metaField(callOptions.meta),
         };
 
-        sendMessage(target, message);
+        sendToRemote(message, mergeTransferables(callOptions.transfer, collectTransferables(args)));
     };
 
-    // Create call proxy with type safety
-    const call = new Proxy({} as CallProxy<TRemote>, {
-        get(_, prop) {
-            // Handle Symbol properties (e.g., Symbol.toStringTag, Symbol.iterator)
-            if (typeof prop === 'symbol') return undefined;
-            return (...args: unknown[]) => callMethod(prop as keyof TRemote, args);
-        },
+    // Create the call proxy, invoke and notify bound to a set of call options
+    const createCaller = (callOptions: CallOptions = {}): BridgeCaller<TRemote> => ({
+        call: new Proxy({} as CallProxy<TRemote>, {
+            get(_, prop) {
+                // Handle Symbol properties (e.g., Symbol.toStringTag, Symbol.iterator)
+                if (typeof prop === 'symbol') return undefined;
+                return (...args: unknown[]) =>
+                    toCallResult(callMethod(prop as keyof TRemote, args, callOptions), prop);
+            },
+        }),
+        invoke: <K extends keyof TRemote>(method: K, ...args: Parameters<TRemote[K]>) =>
+            toCallResult(callMethod(method, args, callOptions), String(method)) as CallResult<ReturnType<TRemote[K]>>,
+        notify: <K extends VoidMethods<TRemote>>(method: K, ...args: Parameters<TRemote[K]>) =>
+            sendNotification(method as string, args, callOptions),
     });
 
+    const caller = createCaller();
+    const { call, invoke, notify } = caller;
+
     // Set up message listener
-    window.addEventListener('message', handleMessage);
+    const unsubscribe = transport.subscribe(handleMessage);
+
+    // Tell the remote side when this page goes away, and re-handshake if it is
+    // restored from the back/forward cache
+    const handlePageHide = () => {
+        if (!isConnected) return;
+        sendFin();
+        handleDisconnect('page hidden');
+    };
+
+    const handlePageShow = (event: PageTransitionEvent) => {
+        if (event.persisted && !isConnected) sendSyn();
+    };
+
+    let unwatchTargetLoad: (() => void) | undefined;
+
+    // Page lifecycle events only exist in windows (bridges also run in workers)
+    const hasPageLifecycle = typeof window !== 'undefined';
+
+    // Announce ourselves; whichever side starts last completes the handshake
+    if (options.handshake) {
+        if (hasPageLifecycle) {
+            window.addEventListener('pagehide', handlePageHide);
+            window.addEventListener('pageshow', handlePageShow);
+        }
+        unwatchTargetLoad = windowHooks?.watchTargetLoad?.(handleTargetLoad);
+        sendSyn();
+    }
+
+    if (options.heartbeat) {
+        const { interval, missedBeforeDead } = options.heartbeat;
+        heartbeatTimer = setInterval(() => heartbeatTick(missedBeforeDead), interval);
+    }
+
+    const off = (event: BridgeEvent, listener: BridgeEventListener) => {
+        listeners[event].delete(listener);
+    };
 
     return {
         call,
-        invoke: <K extends keyof TRemote>(method: K, ...args: Parameters<TRemote[K]>) =>
-            callMethod(method, args),
+        invoke,
         notify,
+        withOptions: (callOptions) => createCaller(callOptions),
+        batch,
+        ready: ready.promise,
+        whenConnected: () => connection.promise,
+        isConnected: () => isConnected,
+        on: (event, listener) => {
+            listeners[event].add(listener);
+            return () => off(event, listener);
+        },
+        off,
+        use: (middleware) => {
+            const { call, handle } = middleware;
+            if (call) callMiddleware = [...callMiddleware, call];
+            if (handle) handlerMiddleware = [...handlerMiddleware, handle];
+            return () => {
+                callMiddleware = callMiddleware.filter((item) => item !== call);
+                handlerMiddleware = handlerMiddleware.filter((item) => item !== handle);
+            };
+        },
+        describeRemote: (callOptions) =>
+            callMethod(RESERVED_METHOD.DESCRIBE, [], callOptions) as Promise<RemoteDescription>,
+        getHealth: () => ({
+            state: getLivenessState(),
+            lastSeen,
+            latency,
+            missedHeartbeats,
+        }),
         destroy: () => {
+            if (options.handshake) {
+                if (isConnected && !isDestroyed) sendFin();
+                if (hasPageLifecycle) {
+                    window.removeEventListener('pagehide', handlePageHide);
+                    window.removeEventListener('pageshow', handlePageShow);
+                }
+                unwatchTargetLoad?.();
+            }
+
             isDestroyed = true;
-            window.removeEventListener('message', handleMessage);
+            clearInterval(heartbeatTimer);
+            unsubscribe();
+            const closeTransports = () => {
+                closePort();
+                transport.close?.();
+            };
+            // Let messages still being signed or compressed, such as the FIN, go out first
+            if (isPipelineAsync) outgoing.then(closeTransports);
+            else closeTransports();
+            outbox.length = 0;
+            batchQueue = null;
+            batchHold = null;
+            connection.reject(new RpcError('Bridge destroyed', 'DESTROYED'));
+            ready.reject(new RpcError('Bridge destroyed', 'DESTROYED'));
+            for (const set of Object.values(listeners)) set.clear();
 
             // Reject all pending requests
-            for (const [, pending] of pendingRequests) {
-                clearTimeout(pending.timeoutId);
-                pending.reject(new RpcError('Bridge destroyed', 'DESTROYED'));
-            }
-            pendingRequests.clear();
+            rejectPendingRequests(() => new RpcError('Bridge destroyed', 'DESTROYED'));
+            failStreams(() => new RpcError('Bridge destroyed', 'DESTROYED'));
+            localCallbacks.clear();
+
+            // Stop any handlers still running for the remote side
+            for (const [, controller] of activeRequests) controller.abort();
+            activeRequests.clear();
 
             logger.log('Bridge destroyed');
         },
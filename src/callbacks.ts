@@ -0,0 +1,65 @@
+/**
+ * Passing functions as RPC arguments
+ *
+ * Functions cannot be structured-cloned, so they are replaced by references
+ * before sending and turned back into proxy functions on the receiving side.
+ */
+
+import type { AnyMethod } from './types';
+import { mapDeep } from './utils';
+
+/** Reference sent in place of a function argument */
+export interface CallbackRef {
+    __iframeRpcCallback: string;
+}
+
+/** Type guard for callback references */
+export function isCallbackRef(value: unknown): value is CallbackRef {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        typeof (value as CallbackRef).__iframeRpcCallback === 'string'
+    );
+}
+
+/**
+ * Replace functions in the arguments with callback references
+ * @param register - Store a function and return its callback id
+ */
+export function encodeCallbacks(args: unknown[], register: (fn: AnyMethod) => string): unknown[] {
+    return mapDeep(
+        args,
+        (value) => typeof value === 'function'
+            ? ({ __iframeRpcCallback: register(value as AnyMethod) } as CallbackRef)
+            : value,
+        new WeakSet()
+    ) as unknown[];
+}
+
+/**
+ * Replace callback references in the arguments with proxy functions
+ * @param createProxy - Create the function that invokes the remote callback
+ */
+export function decodeCallbacks(args: unknown[], createProxy: (callbackId: string) => AnyMethod): unknown[] {
+    return mapDeep(
+        args,
+        (value) => isCallbackRef(value) ? createProxy(value.__iframeRpcCallback) : value,
+        new WeakSet()
+    ) as unknown[];
+}
+
+/** Minimal FinalizationRegistry shape (ES2021, not in the ES2020 lib typings) */
+interface CallbackRegistry {
+    register: (target: object, heldValue: string) => void;
+}
+
+/**
+ * Create a registry notifying when a callback proxy is garbage collected, or
+ * undefined when the runtime has no FinalizationRegistry
+ */
+export function createCallbackRegistry(onCollect: (callbackId: string) => void): CallbackRegistry | undefined {
+    const Registry = (globalThis as {
+        FinalizationRegistry?: new (cleanup: (heldValue: string) => void) => CallbackRegistry;
+    }).FinalizationRegistry;
+    return Registry ? new Registry(onCollect) : undefined;
+}
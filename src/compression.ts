@@ -0,0 +1,118 @@
+/**
+ * Compressing large payloads with the Compression Streams API
+ */
+
+import { isPlainObject } from './utils';
+
+/** Formats supported by `CompressionStream` in all browsers */
+export type CompressionAlgorithm = 'gzip' | 'deflate';
+
+/** Options of `BridgeOptions.compression` */
+export interface CompressionOptions {
+    /** Payloads whose JSON form is at least this many bytes (UTF-8) are compressed. Default: 65536 */
+    threshold?: number;
+    /** Compression format. Default: 'gzip' */
+    algorithm?: CompressionAlgorithm;
+    /** Received payloads decompressing to more than this many bytes are rejected. Default: 64 MiB */
+    maxSize?: number;
+}
+
+/** Payload replaced by its compressed JSON form, as sent over the wire */
+export interface CompressedValue {
+    __iframeRpcCompressed: CompressionAlgorithm;
+    data: ArrayBuffer;
+}
+
+/** Algorithms every bridge with compression enabled can decompress */
+export const COMPRESSION_ALGORITHMS: CompressionAlgorithm[] = ['gzip', 'deflate'];
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Whether the runtime has the Compression Streams API */
+export const isCompressionSupported = (): boolean =>
+    typeof CompressionStream === 'function' && typeof DecompressionStream === 'function';
+
+/** Type guard for compressed payloads */
+export const isCompressedValue = (value: unknown): value is CompressedValue =>
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as CompressedValue).__iframeRpcCompressed === 'string' &&
+    // Checked by tag, as the buffer may come from another realm
+    Object.prototype.toString.call((value as CompressedValue).data) === '[object ArrayBuffer]';
+
+// Whether JSON round-trips the value unchanged: no undefined, non-finite
+// numbers, class instances (Dates, Maps, typed arrays...) or cycles
+const isJsonValue = (value: unknown, ancestors: Set<object> = new Set()): boolean => {
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') return true;
+    if (typeof value === 'number') return Number.isFinite(value);
+    if (!Array.isArray(value) && !isPlainObject(value)) return false;
+    if (ancestors.has(value)) return false;
+
+    ancestors.add(value);
+    const items: unknown[] = Array.isArray(value) ? value : Object.values(value);
+    const isJson = items.every((item) => isJsonValue(item, ancestors));
+    ancestors.delete(value);
+    return isJson;
+};
+
+// Run bytes through a compression or decompression stream, failing once the output exceeds maxSize
+const pipe = async (
+    data: BufferSource,
+    stream: CompressionStream | DecompressionStream,
+    maxSize = Infinity
+): Promise<ArrayBuffer> => {
+    const writer = stream.writable.getWriter();
+    // Not awaited: the writes only complete as the output is read
+    writer.write(data).catch(() => undefined);
+    writer.close().catch(() => undefined);
+
+    const reader = stream.readable.getReader();
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        length += value.byteLength;
+        if (length > maxSize) {
+            reader.cancel().catch(() => undefined);
+            throw new RangeError(`Decompressed payload exceeds ${maxSize} bytes`);
+        }
+    }
+
+    const output = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        output.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return output.buffer;
+};
+
+/**
+ * Compress a payload when its JSON form reaches the threshold. Payloads JSON
+ * cannot represent exactly are returned unchanged.
+ */
+export async function compressValue(value: unknown, options: Required<CompressionOptions>): Promise<unknown> {
+    if (!isJsonValue(value)) return value;
+    const bytes = encoder.encode(JSON.stringify(value));
+    if (bytes.byteLength < options.threshold) return value;
+
+    const compressed: CompressedValue = {
+        __iframeRpcCompressed: options.algorithm,
+        data: await pipe(bytes, new CompressionStream(options.algorithm)),
+    };
+    return compressed;
+}
+
+/**
+ * Restore a payload compressed by `compressValue()`; other values are returned
+ * unchanged. Rejects payloads decompressing to more than `maxSize` bytes.
+ */
+export async function decompressValue(value: unknown, maxSize: number): Promise<unknown> {
+    if (!isCompressedValue(value)) return value;
+    const stream = new DecompressionStream(value.__iframeRpcCompressed);
+    const bytes = await pipe(new Uint8Array(value.data), stream, maxSize);
+    return JSON.parse(decoder.decode(bytes));
+}
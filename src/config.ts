@@ -3,6 +3,14 @@
  */
 
 import { RpcTimeoutError } from './errors';
+import type { StandardSchemaV1 } from './schema';
+import type { CallMeta } from './types';
+import type { AllowedOrigins } from './origin';
+import type { AuthOptions } from './auth';
+import type { SerializerOptions } from './serializer';
+import type { CompressionOptions } from './compression';
+import { collectErrors, collectSchemas, type Contract } from './contract';
+import { createErrorCodec, type ErrorClasses, type ErrorCodec } from './error-codec';
 
 /** Configuration for retry behavior */
 export interface RetryOptions {
@@ -18,22 +26,178 @@ export interface RetryOptions {
     isRetryable?: (error: Error) => boolean;
 }
 
+/** Configuration for heartbeat-based liveness monitoring */
+export interface HeartbeatOptions {
+    /** Interval between pings in ms. Default: 5000 */
+    interval?: number;
+    /** Consecutive unanswered pings before the remote side is declared dead. Default: 3 */
+    missedBeforeDead?: number;
+}
+
+/**
+ * Runtime schemas (Standard Schema compatible: zod, valibot, arktype...) for
+ * data received from the remote side, keyed by method name
+ */
+export interface SchemaOptions {
+    /** Argument schemas of local handlers, checked (as an array) before the handler runs */
+    args?: Record<string, StandardSchemaV1>;
+    /** Result schemas of remote methods, checked before the call resolves */
+    results?: Record<string, StandardSchemaV1>;
+}
+
+/** Contracts of both sides, see `defineContract()` */
+export interface ContractOptions {
+    /** Methods this side provides; its manifest is sent during the handshake */
+    local?: Contract;
+    /** Methods the remote side provides; other methods are rejected locally */
+    remote?: Contract;
+    /** Version of the local contract, e.g. '2.1.0', reported to the remote side */
+    version?: string;
+    /**
+     * Check the remote contract version during the handshake; the connection is
+     * refused with `RpcContractMismatchError` when this returns false.
+     * The version is undefined when the remote side did not set one.
+     */
+    isCompatible?: (remoteVersion: string | undefined) => boolean;
+}
+
+/** Options of `BridgeOptions.pinParentOrigin` */
+export interface PinParentOriginOptions {
+    /**
+     * Also require the parent origin to match the embedding page reported by
+     * `location.ancestorOrigins` or `document.referrer`. When the browser reports
+     * neither (e.g. a `no-referrer` policy), no origin is pinned. Default: false
+     */
+    checkAncestor?: boolean;
+}
+
 /** Bridge configuration options */
 export interface BridgeOptions {
     /** Timeout for RPC calls in milliseconds. Default: 30000 */
     timeout?: number;
     /** Target origin for postMessage. Default: '*' (consider security implications) */
     targetOrigin?: string;
+    /**
+     * Origins accepted for incoming messages: exact origins, wildcards such as
+     * 'https://*.example.com', or predicates. Default: `targetOrigin`
+     */
+    allowedOrigins?: AllowedOrigins;
+    /**
+     * Origins allowed to call specific local methods, e.g.
+     * `{ deleteAccount: ['https://admin.example.com'] }`. Other origins get
+     * `RpcForbiddenError`; methods not listed are open to all allowed origins.
+     */
+    permissions?: Record<string, AllowedOrigins>;
+    /**
+     * Iframe bridges only: learn the parent origin from the parent's first
+     * handshake message, then send to and accept messages from that origin only.
+     * `allowedOrigins` limits which parent origins can be pinned. Requires
+     * `handshake`; `targetOrigin` is ignored. Default: false
+     */
+    pinParentOrigin?: boolean | PinParentOriginOptions;
+    /**
+     * Parent and iframe bridges: ignore messages whose `event.source` is not the
+     * window the bridge talks to, and answers from a different window than the
+     * request was sent to. Default: true
+     */
+    verifySource?: boolean;
+    /**
+     * Sign every message with a secret shared by both bridges, and drop
+     * unsigned, forged and replayed messages, e.g. ones posted by third-party
+     * scripts running on the same origin. Both sides must set the same secret.
+     * Requires WebCrypto; messages are sent and handled asynchronously.
+     */
+    auth?: AuthOptions;
     /** Optional channel name to isolate multiple bridges */
     channel?: string;
     /** Enable debug logging */
     debug?: boolean;
     /** Include stack traces in error responses. Default: false (security) */
     includeStackTraces?: boolean;
+    /**
+     * Error classes revived on the caller side, keyed by the name they are sent
+     * under, e.g. `{ ValidationError, NotFoundError }`. Register them on both
+     * sides. Classes declared with `throws()` in contracts are added.
+     */
+    errors?: ErrorClasses;
+    /** Replace the default error codec; `errors` and `includeStackTraces` then do not apply */
+    errorCodec?: ErrorCodec;
+    /**
+     * Send values structured cloning cannot carry (class instances, decimals,
+     * Temporal objects...) with custom type handlers, in arguments, results,
+     * streamed chunks and errors. With `handshake`, each side only encodes the
+     * types the other announced it decodes.
+     */
+    serializer?: SerializerOptions;
+    /**
+     * Compress large payloads (arguments, results, streamed chunks) with
+     * `CompressionStream`. Requires `handshake`: a bridge only compresses for a
+     * remote side that announced it decompresses.
+     */
+    compression?: CompressionOptions;
     /** Retry configuration for failed calls */
     retry?: RetryOptions;
+    /**
+     * Wait for the remote bridge to answer a SYN/ACK handshake before sending
+     * calls and notifications. Calls made earlier are queued. Both sides must
+     * enable it. Default: false
+     */
+    handshake?: boolean;
+    /**
+     * After the handshake, exchange all traffic over a private MessageChannel
+     * instead of the window `message` event. Only the port handoff goes through
+     * `window.postMessage` (and the `targetOrigin` check). Requires `handshake`;
+     * used only when both sides enable it. Default: false
+     */
+    messageChannel?: boolean;
+    /**
+     * Coalesce calls and notifications made in the same microtask into a single
+     * message (see also `bridge.batch()`). Default: false
+     */
+    autoBatch?: boolean;
+    /** Ping the remote side periodically and fail pending calls when it stops answering */
+    heartbeat?: HeartbeatOptions;
+    /** Per-method timeout and retry overrides, keyed by remote method name */
+    methodOptions?: Record<string, MethodOptions>;
+    /** Validate incoming arguments and results at runtime */
+    schemas?: SchemaOptions;
+    /**
+     * Runtime contracts: unknown remote methods are rejected without a round trip,
+     * and with `handshake` the remote manifest is checked when connecting.
+     * Schemas declared in the contracts are added to `schemas`.
+     */
+    contracts?: ContractOptions;
+    /** Maximum number of streamed chunks buffered per stream before the producer pauses. Default: 16 */
+    streamHighWaterMark?: number;
 }
 
+/** Timeout and retry overrides for a single method, see `BridgeOptions.methodOptions` */
+export interface MethodOptions {
+    /** Timeout for calls to this method in milliseconds */
+    timeout?: number;
+    /** Retry overrides, merged over the bridge's retry options */
+    retry?: RetryOptions;
+}
+
+/** Options for a single call, see `bridge.withOptions()` */
+export interface CallOptions extends MethodOptions {
+    /** Abort the call; the remote handler's `HandlerContext.signal` is aborted too */
+    signal?: AbortSignal;
+    /**
+     * Objects to transfer instead of copy (e.g. ArrayBuffers in the arguments).
+     * Transferred objects are detached after sending, so such calls are never retried.
+     */
+    transfer?: Transferable[];
+    /** Metadata sent with the call, available to the handler as `HandlerContext.meta` */
+    meta?: CallMeta;
+}
+
+/** Call options with timeout and retry resolved against method and bridge defaults */
+export type ResolvedCallOptions = Omit<CallOptions, 'timeout' | 'retry'> & {
+    timeout: number;
+    retry: Required<RetryOptions>;
+};
+
 /** Default retry options */
 export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
     maxRetries: 0,
@@ -43,29 +207,122 @@ export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
     isRetryable: (error: Error) => error instanceof RpcTimeoutError,
 };
 
+/** Default auth options, applied when `auth` is set */
+export const DEFAULT_AUTH_OPTIONS: Omit<Required<AuthOptions>, 'secret'> = {
+    maxAge: 30000,
+};
+
+/** Default compression options, applied when `compression` is set */
+export const DEFAULT_COMPRESSION_OPTIONS: Required<CompressionOptions> = {
+    threshold: 65536,
+    algorithm: 'gzip',
+    maxSize: 64 * 1024 * 1024,
+};
+
+/** Default heartbeat options, applied when `heartbeat` is set */
+export const DEFAULT_HEARTBEAT_OPTIONS: Required<HeartbeatOptions> = {
+    interval: 5000,
+    missedBeforeDead: 3,
+};
+
 /** Fully resolved bridge options type */
-export type ResolvedBridgeOptions = Omit<Required<BridgeOptions>, 'retry'> & {
+export type ResolvedBridgeOptions = Omit<Required<BridgeOptions>, 'retry' | 'heartbeat' | 'auth' | 'serializer' | 'compression'> & {
     retry: Required<RetryOptions>;
+    /** Resolved heartbeat options, or null when disabled */
+    heartbeat: Required<HeartbeatOptions> | null;
+    /** Resolved auth options, or null when messages are not signed */
+    auth: Required<AuthOptions> | null;
+    /** Serializer options, or null when payloads are only structured-cloned */
+    serializer: SerializerOptions | null;
+    /** Resolved compression options, or null when payloads are not compressed */
+    compression: Required<CompressionOptions> | null;
 };
 
 /** Default bridge options */
 export const DEFAULT_OPTIONS: ResolvedBridgeOptions = {
     timeout: 30000,
     targetOrigin: '*',
+    allowedOrigins: '*',
+    permissions: {},
+    pinParentOrigin: false,
+    verifySource: true,
+    auth: null,
     channel: 'default',
     debug: false,
     includeStackTraces: false,
+    errors: {},
+    errorCodec: createErrorCodec(),
+    serializer: null,
+    compression: null,
     retry: DEFAULT_RETRY_OPTIONS,
+    handshake: false,
+    messageChannel: false,
+    autoBatch: false,
+    heartbeat: null,
+    methodOptions: {},
+    schemas: {},
+    contracts: {},
+    streamHighWaterMark: 16,
 };
 
-/** Merge user options with defaults, including nested retry options */
+/** Merge user options with defaults, including nested retry, heartbeat, auth and compression options */
 export function mergeOptions(options: BridgeOptions): ResolvedBridgeOptions {
+    const { local, remote } = options.contracts ?? {};
+    const errors = {
+        ...(local && collectErrors(local)),
+        ...(remote && collectErrors(remote)),
+        ...options.errors,
+    };
     return {
         ...DEFAULT_OPTIONS,
         ...options,
+        allowedOrigins: options.allowedOrigins ?? options.targetOrigin ?? DEFAULT_OPTIONS.allowedOrigins,
         retry: {
             ...DEFAULT_RETRY_OPTIONS,
             ...options.retry,
         },
+        heartbeat: options.heartbeat
+            ? { ...DEFAULT_HEARTBEAT_OPTIONS, ...options.heartbeat }
+            : null,
+        auth: options.auth
+            ? { ...DEFAULT_AUTH_OPTIONS, ...options.auth }
+            : null,
+        compression: options.compression
+            ? { ...DEFAULT_COMPRESSION_OPTIONS, ...options.compression }
+            : null,
+        errors,
+        errorCodec: options.errorCodec ?? createErrorCodec({
+            classes: errors,
+            includeStackTraces: options.includeStackTraces,
+        }),
+        // Explicit schemas take precedence over the ones declared in contracts
+        schemas: {
+            args: { ...(local && collectSchemas(local, 'args')), ...options.schemas?.args },
+            results: { ...(remote && collectSchemas(remote, 'result')), ...options.schemas?.results },
+        },
+    };
+}
+
+/**
+ * Resolve the options for one call. Precedence: call options, then the
+ * method's entry in `methodOptions`, then the bridge options.
+ */
+export function resolveCallOptions(
+    options: ResolvedBridgeOptions,
+    method: string,
+    callOptions: CallOptions
+): ResolvedCallOptions {
+    const methodOptions = Object.prototype.hasOwnProperty.call(options.methodOptions, method)
+        ? options.methodOptions[method]
+        : {};
+
+    return {
+        ...callOptions,
+        timeout: callOptions.timeout ?? methodOptions.timeout ?? options.timeout,
+        retry: {
+            ...options.retry,
+            ...methodOptions.retry,
+            ...callOptions.retry,
+        },
     };
 }
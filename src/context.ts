@@ -0,0 +1,42 @@
+/**
+ * Handing the call context to handlers that ask for it
+ */
+
+import type { AnyMethod, HandlerContext } from './types';
+
+// Functions returned by withContext(), mapped to the handlers they wrap
+const contextHandlers = new WeakMap<AnyMethod, (context: HandlerContext, ...args: any[]) => unknown>();
+
+/**
+ * Wrap a handler to receive the `HandlerContext` of each call as its first
+ * parameter, before the arguments sent by the caller. The context never comes
+ * from the caller's arguments, so it is safe to check `origin` or `meta` in it.
+ *
+ * Called directly rather than through a bridge, the handler gets an empty
+ * context with a signal that is never aborted.
+ *
+ * @example
+ * const handlers = {
+ *   search: withContext(async (ctx, query: string) => {
+ *     const res = await fetch(`/search?q=${query}`, { signal: ctx.signal });
+ *     return res.json();
+ *   }),
+ * };
+ */
+export function withContext<A extends unknown[], R>(
+    handler: (context: HandlerContext, ...args: A) => R
+): (...args: A) => R {
+    const wrapped = (...args: A): R => handler({ signal: new AbortController().signal, meta: {} }, ...args);
+    contextHandlers.set(wrapped as AnyMethod, handler);
+    return wrapped;
+}
+
+/**
+ * Call a local handler with the arguments sent by the caller, and the context
+ * when the handler was wrapped with withContext()
+ * @internal
+ */
+export function invokeHandler(handler: AnyMethod, args: unknown[], context: HandlerContext): unknown {
+    const contextual = contextHandlers.get(handler);
+    return contextual ? contextual(context, ...args) : handler(...args);
+}
@@ -0,0 +1,162 @@
+/**
+ * Contract-first bridge definitions with a runtime method manifest
+ */
+
+import type { AnyMethod, MethodContract } from './types';
+import type { StandardSchemaV1 } from './schema';
+import type { ErrorClasses } from './error-codec';
+
+/** How a method is called: request/response, fire-and-forget, or streamed */
+export type MethodKind = 'request' | 'notify' | 'stream';
+
+/** Optional runtime schemas of a contract method */
+export interface MethodSchemas {
+    /** Validates the arguments (as an array) before the handler runs */
+    args?: StandardSchemaV1;
+    /** Validates the result before the caller's call resolves */
+    result?: StandardSchemaV1;
+}
+
+/** Runtime description of a contract method, typed with its signature and the errors it throws */
+export interface MethodDefinition<F extends AnyMethod = AnyMethod, E extends Error = Error> extends MethodSchemas {
+    readonly kind: MethodKind;
+    /** Error classes the method may throw, declared with `throws()` */
+    readonly errors?: ErrorClasses;
+    /** Type-level only: the method signature */
+    readonly __signature?: F;
+    /** Type-level only: the errors declared with `throws()` */
+    readonly __errors?: E;
+}
+
+/** Contract method returned by the `method` builders */
+export interface MethodBuilder<F extends AnyMethod> extends MethodDefinition<F> {
+    /**
+     * Declare the error classes the method may throw. They are registered on
+     * both sides (see `BridgeOptions.errors`), so callers can use `instanceof`.
+     *
+     * @example
+     * getUser: method.request<(id: string) => Promise<User>>().throws({ NotFoundError })
+     */
+    throws: <C extends ErrorClasses>(errors: C) => MethodDefinition<F, InstanceType<C[keyof C]>>;
+}
+
+/** Method names mapped to their kind, exchanged during the handshake */
+export type ContractManifest = Record<string, MethodKind>;
+
+/** Definitions of the methods of a contract, by default without declared errors */
+type MethodDefinitions<T extends MethodContract> = { readonly [K in keyof T]: MethodDefinition<T[K]> };
+
+/** Contract produced by `defineContract()`, with the method types and their definitions */
+export interface Contract<
+    T extends MethodContract = MethodContract,
+    D extends { readonly [K in keyof T]: MethodDefinition<any, any> } = MethodDefinitions<T>
+> {
+    readonly methods: D;
+}
+
+/** Method signatures of the definitions passed to `defineContract()` */
+type MethodsOf<D extends Record<string, MethodDefinition>> = {
+    [K in keyof D]: D[K] extends MethodDefinition<infer F> ? F : never;
+};
+
+/** Extract the method types of a contract, e.g. `InferContract<typeof IframeContract>` */
+export type InferContract<C extends Contract> = C extends Contract<infer T, any> ? T : never;
+
+/**
+ * Errors a contract method declares with `throws()`, e.g.
+ * `MethodErrors<typeof IframeContract, 'getUser'>`
+ */
+export type MethodErrors<C extends Contract, K extends keyof C['methods']> =
+    C['methods'][K] extends MethodDefinition<any, infer E> ? E : never;
+
+// Add `throws()` to a method definition
+const withThrows = <F extends AnyMethod>(definition: MethodDefinition<F, never>): MethodBuilder<F> => ({
+    ...definition,
+    throws: (errors) => ({ ...definition, errors }),
+});
+
+/**
+ * Builders for contract methods. The type argument is the method signature.
+ *
+ * @example
+ * method.request<(id: string) => Promise<User>>({ result: UserSchema })
+ */
+export const method = {
+    /** Method answering with a result */
+    request: <F extends AnyMethod>(schemas: MethodSchemas = {}): MethodBuilder<F> =>
+        withThrows({ kind: 'request', ...schemas }),
+    /** Fire-and-forget method, called with `bridge.notify()` */
+    notify: <F extends (...args: any[]) => void>(schemas: Pick<MethodSchemas, 'args'> = {}): MethodBuilder<F> =>
+        withThrows({ kind: 'notify', ...schemas }),
+    /** Method returning an `AsyncIterable`, consumed with `for await` */
+    stream: <F extends (...args: any[]) => AsyncIterable<unknown> | Promise<AsyncIterable<unknown>>>(
+        schemas: Pick<MethodSchemas, 'args'> = {}
+    ): MethodBuilder<F> => withThrows({ kind: 'stream', ...schemas }),
+};
+
+/**
+ * Define the methods one side of a bridge provides, as a type and a runtime manifest
+ *
+ * @example
+ * export const IframeContract = defineContract({
+ *   getStatus: method.request<() => Promise<'ready' | 'loading'>>(),
+ *   track: method.notify<(event: string) => void>(),
+ *   tail: method.stream<(lines: number) => AsyncIterable<string>>(),
+ * });
+ * export type IframeMethods = InferContract<typeof IframeContract>;
+ */
+export function defineContract<D extends Record<string, MethodDefinition>>(
+    methods: D
+): Contract<MethodsOf<D>, D> {
+    // The signatures only exist at the type level
+    return { methods } as unknown as Contract<MethodsOf<D>, D>;
+}
+
+/** Runtime manifest of a contract: its method names and kinds */
+export function getManifest(contract: Contract): ContractManifest {
+    const manifest: ContractManifest = {};
+    for (const [name, definition] of Object.entries(contract.methods)) {
+        manifest[name] = definition.kind;
+    }
+    return manifest;
+}
+
+/** Whether a contract declares a method, ignoring inherited keys such as "constructor" */
+export function hasMethod(contract: Contract, name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(contract.methods, name);
+}
+
+/**
+ * Compare the methods we expect to call with the manifest of the remote side
+ * @returns One description per missing or mismatched method
+ */
+export function compareManifest(expected: Contract, remote: ContractManifest): string[] {
+    const problems: string[] = [];
+    for (const [name, definition] of Object.entries(expected.methods)) {
+        if (!Object.prototype.hasOwnProperty.call(remote, name)) {
+            problems.push(`"${name}" is not provided by the remote side`);
+        } else if (remote[name] !== definition.kind) {
+            problems.push(`"${name}" is a ${remote[name]} method on the remote side, expected ${definition.kind}`);
+        }
+    }
+    return problems;
+}
+
+/** Collect the error classes declared with `throws()` in a contract */
+export function collectErrors(contract: Contract): ErrorClasses {
+    const errors: ErrorClasses = {};
+    for (const definition of Object.values(contract.methods)) {
+        Object.assign(errors, definition.errors);
+    }
+    return errors;
+}
+
+/** Collect the schemas declared in a contract, keyed by method name */
+export function collectSchemas(contract: Contract, kind: keyof MethodSchemas): Record<string, StandardSchemaV1> {
+    const schemas: Record<string, StandardSchemaV1> = {};
+    for (const [name, definition] of Object.entries(contract.methods)) {
+        const schema = definition[kind];
+        if (schema) schemas[name] = schema;
+    }
+    return schemas;
+}
@@ -0,0 +1,138 @@
+/**
+ * Converting errors to and from the form sent across the boundary
+ */
+
+import { RpcError, RpcFailure } from './errors';
+import type { SerializedCause, SerializedError } from './messages';
+import { isCloneable } from './utils';
+
+/** Constructor of an error class, e.g. `class NotFoundError extends Error {}` */
+export type ErrorClass<E extends Error = Error> = abstract new (...args: any[]) => E;
+
+/**
+ * Error classes revived on the caller side, keyed by the name they are sent
+ * under. Use object shorthand (`{ NotFoundError }`) so names survive minification.
+ */
+export type ErrorClasses = Record<string, ErrorClass>;
+
+/**
+ * Converts errors thrown by handlers to their wire form, and back into errors
+ * on the caller side. Pass one as `BridgeOptions.errorCodec` to replace the
+ * default codec, e.g. to map errors to your own error types.
+ */
+export interface ErrorCodec {
+    encode: (error: Error) => SerializedError;
+    decode: (error: SerializedError) => Error;
+}
+
+/** Options of `createErrorCodec()` */
+export interface ErrorCodecOptions {
+    /**
+     * Error classes that round-trip by name, with their custom properties; other
+     * errors are sent with their message and code only, and revived as `RpcError`.
+     * `RpcFailure` (see `rpcFail()`) is always registered.
+     */
+    classes?: ErrorClasses;
+    /** Include stack traces. Default: false */
+    includeStackTraces?: boolean;
+}
+
+// Properties sent in their own fields rather than with the custom ones
+const RESERVED_KEYS = new Set(['message', 'stack', 'cause', 'errors', 'code', 'name', 'originalStack']);
+
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+// Values structured cloning cannot copy (functions, DOM nodes...) are sent as strings
+const toCloneable = (value: unknown): unknown => {
+    if (isCloneable(value)) return value;
+    try {
+        return String(value);
+    } catch {
+        return '[uncloneable]';
+    }
+};
+
+// Non-enumerable, like the properties of native errors
+const defineHidden = (target: object, key: string, value: unknown) =>
+    Object.defineProperty(target, key, { value, writable: true, configurable: true, enumerable: false });
+
+/**
+ * Create the default error codec. Errors keep their code, `cause` and
+ * `AggregateError` members; errors of registered classes also keep their custom
+ * enumerable properties, and are revived as instances of their class (without
+ * calling its constructor). Other errors may carry request configs, headers...
+ * that should not leave the frame, so their properties are not sent.
+ */
+export function createErrorCodec(options: ErrorCodecOptions = {}): ErrorCodec {
+    const classes: ErrorClasses = { RpcFailure, ...options.classes };
+    const names = new Map<unknown, string>();
+    for (const [name, errorClass] of Object.entries(classes)) {
+        if (!names.has(errorClass)) names.set(errorClass, name);
+    }
+
+    // Name of the closest registered class in the error's prototype chain
+    const findType = (error: Error): string | undefined => {
+        for (let proto = Object.getPrototypeOf(error); proto; proto = Object.getPrototypeOf(proto)) {
+            const name = names.get(proto.constructor);
+            if (name !== undefined) return name;
+        }
+        return undefined;
+    };
+
+    const encodeCause = (value: unknown, seen: Set<Error>): SerializedCause =>
+        value instanceof Error && !seen.has(value)
+            ? { error: encodeError(value, seen) }
+            : { value: toCloneable(value) };
+
+    const encodeError = (error: Error, seen: Set<Error>): SerializedError => {
+        seen.add(error);
+        const { cause, errors, code } = error as Error & { cause?: unknown; errors?: unknown; code?: unknown };
+        const type = findType(error);
+
+        const data: Record<string, unknown> = {};
+        if (type !== undefined) {
+            for (const [key, value] of Object.entries(error)) {
+                if (!RESERVED_KEYS.has(key) && typeof value !== 'function') data[key] = toCloneable(value);
+            }
+        }
+
+        return {
+            message: error.message,
+            ...(typeof code === 'string' && { code }),
+            ...(options.includeStackTraces && error.stack ? { stack: error.stack } : {}),
+            ...(type !== undefined && { type, name: error.name }),
+            ...(cause !== undefined && { cause: encodeCause(cause, seen) }),
+            ...(Array.isArray(errors) && { errors: errors.map((member) => encodeCause(member, seen)) }),
+            ...(Object.keys(data).length > 0 && { data }),
+        };
+    };
+
+    const decodeCause = (cause: SerializedCause): unknown =>
+        'error' in cause ? decodeError(cause.error) : cause.value;
+
+    const decodeError = (serialized: SerializedError): Error => {
+        const { message, code, stack, type } = serialized;
+        let error: Error;
+        if (type !== undefined && hasOwn(classes, type)) {
+            error = Object.create(classes[type].prototype);
+            defineHidden(error, 'message', message);
+            defineHidden(error, 'stack', stack ?? new Error(message).stack);
+            if (serialized.name !== undefined) (error as { name: string }).name = serialized.name;
+            if (code !== undefined) (error as { code?: string }).code = code;
+        } else {
+            error = new RpcError(message, code, stack);
+        }
+
+        for (const [key, value] of Object.entries(serialized.data ?? {})) {
+            if (key !== '__proto__') (error as unknown as Record<string, unknown>)[key] = value;
+        }
+        if (serialized.cause) defineHidden(error, 'cause', decodeCause(serialized.cause));
+        if (serialized.errors) defineHidden(error, 'errors', serialized.errors.map(decodeCause));
+        return error;
+    };
+
+    return {
+        encode: (error) => encodeError(error, new Set()),
+        decode: decodeError,
+    };
+}
@@ -2,6 +2,9 @@
  * Error classes for RPC operations
  */
 
+import { formatSchemaIssues, type SchemaIssue } from './schema';
+import { PROTOCOL_VERSION } from './messages';
+
 /** Base error class for all RPC errors */
 export class RpcError extends Error {
     constructor(
@@ -22,6 +25,22 @@ export class RpcTimeoutError extends RpcError {
     }
 }
 
+/** Error thrown when the remote bridge goes away while a call is pending */
+export class RpcDisconnectedError extends RpcError {
+    constructor(method: string) {
+        super(`RPC call to "${method}" failed: remote bridge disconnected`, 'DISCONNECTED');
+        this.name = 'RpcDisconnectedError';
+    }
+}
+
+/** Error thrown when a call is cancelled through its AbortSignal */
+export class RpcAbortedError extends RpcError {
+    constructor(method: string) {
+        super(`RPC call to "${method}" was aborted`, 'ABORTED');
+        this.name = 'RpcAbortedError';
+    }
+}
+
 /** Error thrown when a called method is not found on the remote side */
 export class RpcMethodNotFoundError extends RpcError {
     constructor(method: string) {
@@ -29,3 +48,63 @@ export class RpcMethodNotFoundError extends RpcError {
         this.name = 'RpcMethodNotFoundError';
     }
 }
+
+/** Error thrown when arguments or a result fail their schema (see `schemas` option) */
+export class RpcValidationError extends RpcError {
+    constructor(
+        method: string,
+        public readonly target: 'args' | 'result',
+        public readonly issues: ReadonlyArray<SchemaIssue> = []
+    ) {
+        super(
+            `Invalid ${target === 'args' ? 'arguments' : 'result'} for "${method}": ${formatSchemaIssues(issues)}`,
+            'VALIDATION_ERROR'
+        );
+        this.name = 'RpcValidationError';
+    }
+}
+
+/** Error thrown when the remote bridge does not provide the methods of our remote contract */
+export class RpcContractMismatchError extends RpcError {
+    constructor(public readonly problems: string[]) {
+        super(`Remote bridge does not match the contract: ${problems.join('; ')}`, 'CONTRACT_MISMATCH');
+        this.name = 'RpcContractMismatchError';
+    }
+}
+
+/** Error thrown when the remote bridge speaks a newer, incompatible protocol version */
+export class RpcProtocolError extends RpcError {
+    constructor(public readonly version: number) {
+        super(
+            `Remote bridge uses protocol version ${version}, this library supports up to ${PROTOCOL_VERSION}`,
+            'UNSUPPORTED_PROTOCOL'
+        );
+        this.name = 'RpcProtocolError';
+    }
+}
+
+/** Error thrown when the calling origin is not allowed to call a method, see `permissions` */
+export class RpcForbiddenError extends RpcError {
+    constructor(method: string, public readonly origin?: string) {
+        super(
+            origin === undefined
+                ? `Calls to "${method}" require a known origin`
+                : `Origin "${origin}" is not allowed to call "${method}"`,
+            'FORBIDDEN'
+        );
+        this.name = 'RpcForbiddenError';
+    }
+}
+
+/**
+ * Expected failure of a `Fallible` method, created with `rpcFail()`. Its code
+ * and payload reach the caller, who can narrow on `code` (see `settle()`).
+ */
+export class RpcFailure<C extends string = string, P = unknown> extends RpcError {
+    declare readonly code: C;
+
+    constructor(code: C, public readonly payload: P, message: string = code) {
+        super(message, code);
+        this.name = 'RpcFailure';
+    }
+}
@@ -0,0 +1,76 @@
+/**
+ * Result-style methods whose expected failures are typed in the contract
+ */
+
+import { RpcFailure } from './errors';
+
+/** Expected failure mode of a method: a code and the payload sent with it */
+export interface Failure<C extends string = string, P = undefined> {
+    readonly code: C;
+    readonly payload: P;
+}
+
+/** Any failure; failure unions of `Fallible` methods extend it */
+export type AnyFailure = Failure<string, unknown>;
+
+/**
+ * Return type of a method that can fail in expected ways. Handlers return a
+ * plain promise and fail with `throw rpcFail(code, payload)`; callers get the
+ * failures as a typed union with `settle()`.
+ *
+ * @example
+ * type IframeMethods = {
+ *   getUser: (id: string) => Fallible<User, Failure<'NOT_FOUND', { id: string }> | Failure<'FORBIDDEN'>>;
+ * };
+ */
+export type Fallible<T, E extends AnyFailure> = Promise<T> & {
+    /** Type-level only: the failures of the method */
+    readonly __failures?: E;
+};
+
+/** Errors the failures of a union are received as */
+export type FailureError<E extends AnyFailure> = E extends Failure<infer C, infer P> ? RpcFailure<C, P> : never;
+
+/** Outcome of a fallible call, see `settle()` */
+export type Settled<T, E extends AnyFailure> =
+    | { ok: true; value: T }
+    | { ok: false; error: FailureError<E> };
+
+/**
+ * Create the error a handler throws to fail with one of the failures of its
+ * `Fallible` return type. The payload must be cloneable.
+ *
+ * @example
+ * getUser: async (id) => {
+ *   const user = await db.find(id);
+ *   if (!user) throw rpcFail('NOT_FOUND', { id });
+ *   return user;
+ * }
+ */
+export function rpcFail<C extends string>(code: C): RpcFailure<C, undefined>;
+export function rpcFail<C extends string, P>(code: C, payload: P, message?: string): RpcFailure<C, P>;
+export function rpcFail(code: string, payload?: unknown, message?: string): RpcFailure {
+    return new RpcFailure(code, payload, message);
+}
+
+/**
+ * Wait for a fallible call: expected failures resolve as `{ ok: false, error }`,
+ * other errors (timeouts, disconnections...) still reject.
+ *
+ * @example
+ * const result = await settle(bridge.call.getUser(id));
+ * if (!result.ok) {
+ *   switch (result.error.code) {
+ *     case 'NOT_FOUND': return showMissing(result.error.payload.id);
+ *     case 'FORBIDDEN': return showLogin();
+ *   }
+ * }
+ */
+export async function settle<T, E extends AnyFailure>(call: Fallible<T, E>): Promise<Settled<T, E>> {
+    try {
+        return { ok: true, value: await call };
+    } catch (error) {
+        if (error instanceof RpcFailure) return { ok: false, error: error as FailureError<E> };
+        throw error;
+    }
+}
@@ -5,7 +5,36 @@ import {
   RpcError,
   RpcTimeoutError,
   RpcMethodNotFoundError,
+  RpcDisconnectedError,
+  RpcAbortedError,
+  RpcValidationError,
+  RpcContractMismatchError,
+  RpcProtocolError,
+  RpcForbiddenError,
+  RpcFailure,
   MESSAGE_TYPE,
+  PROTOCOL_VERSION,
+  transfer,
+  createBridge,
+  createInMemoryTransportPair,
+  createMessagePortTransport,
+  createWorkerTransport,
+  createBroadcastChannelTransport,
+  createErrorCodec,
+  rpcFail,
+  settle,
+  builtinTypes,
+  classType,
+  ZonedDate,
+  defineContract,
+  method,
+  withContext,
+  type HandlerContext,
+  type InferContract,
+  type Transport,
+  type StandardSchemaV1,
+  type Fallible,
+  type Failure,
 } from './index';
 
 // Mock window and postMessage
@@ -17,8 +46,53 @@ const createMockWindow = () => ({
 
 const createMockIframe = () => ({
   contentWindow: createMockWindow(),
+  addEventListener: vi.fn(),
+  removeEventListener: vi.fn(),
 });
 
+type MockWindow = ReturnType<typeof createMockWindow>;
+
+/** Where a dispatched message comes from */
+interface MessageFrom {
+  source?: unknown;
+  origin?: string;
+}
+
+/**
+ * Capture the message listeners bridges add to `window`. `dispatch` delivers an
+ * RPC message to them as if posted by `peer` (or the given source and origin);
+ * `sent` and `sentOfType` list the messages the bridge posted to `peer`.
+ */
+const mockWindowMessages = (peer: MockWindow, defaults: MessageFrom = {}) => {
+  const listeners: ((event: MessageEvent) => void)[] = [];
+  vi.spyOn(window, 'addEventListener').mockImplementation((type, listener) => {
+    if (type === 'message') {
+      listeners.push(listener as (event: MessageEvent) => void);
+    }
+  });
+  vi.spyOn(window, 'removeEventListener').mockImplementation(() => { });
+
+  const dispatch = (data: Record<string, unknown>, from: MessageFrom = {}) => {
+    const { source = peer, origin } = { ...defaults, ...from };
+    const event = new MessageEvent('message', {
+      data: { __iframeRpc: true, channel: 'default', ...data },
+      origin,
+      source: source as Window,
+    });
+    listeners.forEach((l) => l(event));
+  };
+
+  const sent = (target: MockWindow = peer): any[] => target.postMessage.mock.calls.map(([msg]) => msg);
+
+  const sentOfType = (type: string, target: MockWindow = peer) => sent(target).filter((msg) => msg.type === type);
+
+  return { dispatch, sent, sentOfType };
+};
+
+type WindowMessages = ReturnType<typeof mockWindowMessages>;
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
 describe('Error Classes', () => {
   describe('RpcError', () => {
     it('should create error with message', () => {
@@ -1062,3 +1136,3231 @@ describe('Retry Mechanism', () => {
     vi.useRealTimers();
   });
 });
+
+describe('Connection Handshake', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    ({ dispatch } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should be connected immediately when handshake is disabled', async () => {
+    const bridge = createParentBridge(mockIframe as unknown as HTMLIFrameElement, {});
+
+    expect(bridge.isConnected()).toBe(true);
+    await expect(bridge.ready).resolves.toBeUndefined();
+    expect(mockIframe.contentWindow.postMessage).not.toHaveBeenCalled();
+  });
+
+  it('should send SYN on creation when handshake is enabled', () => {
+    const bridge = createParentBridge(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true }
+    );
+
+    expect(bridge.isConnected()).toBe(false);
+    expect(mockIframe.contentWindow.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: MESSAGE_TYPE.SYN, channel: 'default' }),
+      '*'
+    );
+  });
+
+  it('should queue calls and notifications until ACK is received', async () => {
+    type RemoteMethods = {
+      getStatus: () => Promise<string>;
+      logEvent: (event: string) => void;
+    };
+
+    const sentMessages: any[] = [];
+    (mockIframe.contentWindow.postMessage as any).mockImplementation((msg: any) => {
+      sentMessages.push(msg);
+    });
+
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true }
+    );
+
+    const resultPromise = bridge.call.getStatus();
+    bridge.notify('logEvent', 'early');
+
+    expect(sentMessages.map((m) => m.type)).toEqual([MESSAGE_TYPE.SYN]);
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'remote' });
+
+    await expect(bridge.whenConnected()).resolves.toBeUndefined();
+    expect(bridge.isConnected()).toBe(true);
+    expect(sentMessages.map((m) => m.type)).toEqual([
+      MESSAGE_TYPE.SYN,
+      MESSAGE_TYPE.REQUEST,
+      MESSAGE_TYPE.FIRE_AND_FORGET,
+    ]);
+
+    dispatch({ type: MESSAGE_TYPE.RESPONSE, id: sentMessages[1].id, result: 'ready' });
+
+    await expect(resultPromise).resolves.toBe('ready');
+  });
+
+  it('should answer SYN with ACK and become connected', async () => {
+    const bridge = createParentBridge(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true }
+    );
+
+    dispatch({ type: MESSAGE_TYPE.SYN, session: 'remote' });
+
+    expect(mockIframe.contentWindow.postMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: MESSAGE_TYPE.ACK }),
+      '*'
+    );
+    await expect(bridge.ready).resolves.toBeUndefined();
+  });
+
+  it('should not throw for a missing contentWindow when handshake is enabled', async () => {
+    type RemoteMethods = {
+      getStatus: () => Promise<string>;
+    };
+
+    const lateIframe = {
+      contentWindow: null as ReturnType<typeof createMockWindow> | null,
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    };
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      lateIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true }
+    );
+
+    const resultPromise = bridge.call.getStatus();
+
+    // Iframe loads and its bridge announces itself
+    lateIframe.contentWindow = mockIframe.contentWindow;
+    dispatch({ type: MESSAGE_TYPE.SYN, session: 'remote' });
+
+    const request = mockIframe.contentWindow.postMessage.mock.calls
+      .map(([msg]) => msg)
+      .find((msg: any) => msg.type === MESSAGE_TYPE.REQUEST);
+    expect(request).toBeDefined();
+
+    dispatch({ type: MESSAGE_TYPE.RESPONSE, id: request.id, result: 'ready' });
+    await expect(resultPromise).resolves.toBe('ready');
+  });
+
+  it('should reject ready when destroyed before connecting', async () => {
+    const bridge = createParentBridge(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true }
+    );
+
+    bridge.destroy();
+
+    await expect(bridge.ready).rejects.toThrow('Bridge destroyed');
+  });
+});
+
+describe('Connection Lifecycle', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+  let sentOfType: WindowMessages['sentOfType'];
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    ({ dispatch, sentOfType } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should emit connect on first handshake', () => {
+    const bridge = createParentBridge(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true }
+    );
+    const onConnect = vi.fn();
+    const onReconnect = vi.fn();
+    bridge.on('connect', onConnect);
+    bridge.on('reconnect', onReconnect);
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'remote-1' });
+
+    expect(onConnect).toHaveBeenCalledTimes(1);
+    expect(onReconnect).not.toHaveBeenCalled();
+  });
+
+  it('should disconnect and reject pending requests when the remote bridge closes', async () => {
+    type RemoteMethods = {
+      slowMethod: () => Promise<string>;
+    };
+
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true }
+    );
+    const onDisconnect = vi.fn();
+    bridge.on('disconnect', onDisconnect);
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'remote-1' });
+    const resultPromise = bridge.call.slowMethod();
+
+    dispatch({ type: MESSAGE_TYPE.FIN });
+
+    await expect(resultPromise).rejects.toThrow(RpcDisconnectedError);
+    await expect(resultPromise).rejects.toThrow('RPC call to "slowMethod" failed: remote bridge disconnected');
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    expect(bridge.isConnected()).toBe(false);
+  });
+
+  it('should detect a restarted remote bridge and reconnect', async () => {
+    type RemoteMethods = {
+      slowMethod: () => Promise<string>;
+    };
+
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true }
+    );
+    const events: string[] = [];
+    bridge.on('connect', () => events.push('connect'));
+    bridge.on('disconnect', () => events.push('disconnect'));
+    bridge.on('reconnect', () => events.push('reconnect'));
+
+    dispatch({ type: MESSAGE_TYPE.SYN, session: 'remote-1' });
+    const resultPromise = bridge.call.slowMethod();
+
+    // Same session repeating its SYN is not a restart
+    dispatch({ type: MESSAGE_TYPE.SYN, session: 'remote-1' });
+    expect(events).toEqual(['connect']);
+
+    // Iframe reloaded: a new bridge instance announces itself
+    dispatch({ type: MESSAGE_TYPE.SYN, session: 'remote-2' });
+
+    await expect(resultPromise).rejects.toThrow(RpcDisconnectedError);
+    expect(events).toEqual(['connect', 'disconnect', 'reconnect']);
+    expect(bridge.isConnected()).toBe(true);
+    expect(sentOfType(MESSAGE_TYPE.ACK)).toHaveLength(3);
+  });
+
+  it('should queue calls while disconnected and flush them on reconnect', async () => {
+    type RemoteMethods = {
+      getStatus: () => Promise<string>;
+    };
+
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true }
+    );
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'remote-1' });
+    dispatch({ type: MESSAGE_TYPE.FIN });
+
+    const reconnected = bridge.whenConnected();
+    const resultPromise = bridge.call.getStatus();
+    expect(sentOfType(MESSAGE_TYPE.REQUEST)).toHaveLength(0);
+
+    dispatch({ type: MESSAGE_TYPE.SYN, session: 'remote-2' });
+    await expect(reconnected).resolves.toBeUndefined();
+
+    const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+    dispatch({ type: MESSAGE_TYPE.RESPONSE, id: request.id, result: 'ready' });
+    await expect(resultPromise).resolves.toBe('ready');
+  });
+
+  it('should re-handshake when the iframe loads a new document', () => {
+    const bridge = createParentBridge(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true }
+    );
+    const onDisconnect = vi.fn();
+    bridge.on('disconnect', onDisconnect);
+
+    expect(mockIframe.addEventListener).toHaveBeenCalledWith('load', expect.any(Function));
+    const onLoad = mockIframe.addEventListener.mock.calls[0][1] as () => void;
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'remote-1' });
+
+    // Load with the same browsing context keeps the connection
+    onLoad();
+    expect(onDisconnect).not.toHaveBeenCalled();
+    expect(sentOfType(MESSAGE_TYPE.SYN)).toHaveLength(1);
+
+    // Iframe element re-attached: contentWindow identity changes
+    mockIframe.contentWindow = createMockWindow();
+    onLoad();
+
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    expect(sentOfType(MESSAGE_TYPE.SYN)).toHaveLength(1);
+  });
+
+  it('should send FIN and remove listeners on destroy', () => {
+    const bridge = createParentBridge(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true }
+    );
+    const onDisconnect = vi.fn();
+    const unsubscribe = bridge.on('disconnect', onDisconnect);
+    unsubscribe();
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'remote-1' });
+    bridge.destroy();
+
+    expect(sentOfType(MESSAGE_TYPE.FIN)).toHaveLength(1);
+    expect(mockIframe.removeEventListener).toHaveBeenCalledWith('load', expect.any(Function));
+    expect(onDisconnect).not.toHaveBeenCalled();
+  });
+});
+
+describe('Heartbeat', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+  let sentOfType: WindowMessages['sentOfType'];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockIframe = createMockIframe();
+    ({ dispatch, sentOfType } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should not ping when heartbeat is disabled', () => {
+    const bridge = createParentBridge(mockIframe as unknown as HTMLIFrameElement, {});
+
+    vi.advanceTimersByTime(60000);
+
+    expect(sentOfType(MESSAGE_TYPE.PING)).toHaveLength(0);
+    expect(bridge.getHealth()).toEqual({
+      state: 'unknown',
+      lastSeen: null,
+      latency: null,
+      missedHeartbeats: 0,
+    });
+  });
+
+  it('should answer pings with pongs', () => {
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, {});
+
+    dispatch({ type: MESSAGE_TYPE.PING, id: 'ping-1' });
+
+    expect(sentOfType(MESSAGE_TYPE.PONG)).toEqual([
+      expect.objectContaining({ id: 'ping-1' }),
+    ]);
+  });
+
+  it('should track latency and last seen time from pongs', () => {
+    const bridge = createParentBridge(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { heartbeat: { interval: 1000 } }
+    );
+
+    vi.advanceTimersByTime(1000);
+    const [ping] = sentOfType(MESSAGE_TYPE.PING);
+
+    vi.advanceTimersByTime(25);
+    dispatch({ type: MESSAGE_TYPE.PONG, id: ping.id });
+
+    const health = bridge.getHealth();
+    expect(health.state).toBe('alive');
+    expect(health.latency).toBe(25);
+    expect(health.lastSeen).toBe(Date.now());
+  });
+
+  it('should fail pending requests fast when the remote side is declared dead', async () => {
+    type RemoteMethods = {
+      slowMethod: () => Promise<string>;
+    };
+
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { heartbeat: { interval: 1000, missedBeforeDead: 2 } }
+    );
+
+    const resultPromise = bridge.call.slowMethod();
+    resultPromise.catch(() => { });
+
+    vi.advanceTimersByTime(2000);
+    expect(bridge.getHealth().state).toBe('unresponsive');
+
+    vi.advanceTimersByTime(1000);
+    expect(bridge.getHealth().state).toBe('dead');
+    await expect(resultPromise).rejects.toThrow(RpcDisconnectedError);
+
+    // Any message from the remote side revives it
+    dispatch({ type: MESSAGE_TYPE.PONG, id: 'late' });
+    expect(bridge.getHealth().state).toBe('alive');
+  });
+
+  it('should fail started streams when the remote side is declared dead', async () => {
+    type RemoteMethods = {
+      logs: () => AsyncIterable<string>;
+    };
+
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { heartbeat: { interval: 1000, missedBeforeDead: 2 } }
+    );
+
+    const stream = bridge.call.logs()[Symbol.asyncIterator]();
+    const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+    dispatch({ type: MESSAGE_TYPE.STREAM_START, id: request.id });
+    const next = stream.next();
+    next.catch(() => { });
+
+    vi.advanceTimersByTime(3000);
+
+    expect(bridge.getHealth().state).toBe('dead');
+    await expect(next).rejects.toThrow(RpcDisconnectedError);
+  });
+
+  it('should disconnect and re-handshake when a connected remote side dies', () => {
+    const bridge = createParentBridge(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true, heartbeat: { interval: 1000, missedBeforeDead: 1 } }
+    );
+    const onDisconnect = vi.fn();
+    bridge.on('disconnect', onDisconnect);
+
+    // No pings before the handshake completes
+    vi.advanceTimersByTime(5000);
+    expect(sentOfType(MESSAGE_TYPE.PING)).toHaveLength(0);
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'remote-1' });
+    vi.advanceTimersByTime(2000);
+
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    expect(bridge.isConnected()).toBe(false);
+    expect(bridge.getHealth().state).toBe('dead');
+    expect(sentOfType(MESSAGE_TYPE.SYN)).toHaveLength(2);
+  });
+
+  it('should stop pinging after destroy', () => {
+    const bridge = createParentBridge(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { heartbeat: { interval: 1000 } }
+    );
+
+    bridge.destroy();
+    vi.advanceTimersByTime(5000);
+
+    expect(sentOfType(MESSAGE_TYPE.PING)).toHaveLength(0);
+  });
+});
+
+describe('Request Cancellation', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+  let sentOfType: WindowMessages['sentOfType'];
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    ({ dispatch, sentOfType } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should reject with RpcAbortedError and send a cancel message', async () => {
+    type RemoteMethods = {
+      search: (query: string) => Promise<string[]>;
+    };
+
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {}
+    );
+
+    const controller = new AbortController();
+    const resultPromise = bridge.withOptions({ signal: controller.signal }).call.search('foo');
+    const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+
+    controller.abort();
+
+    await expect(resultPromise).rejects.toThrow(RpcAbortedError);
+    expect(sentOfType(MESSAGE_TYPE.CANCEL)).toEqual([
+      expect.objectContaining({ id: request.id }),
+    ]);
+  });
+
+  it('should support signals with invoke', async () => {
+    type RemoteMethods = {
+      search: (query: string) => Promise<string[]>;
+    };
+
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {}
+    );
+
+    const controller = new AbortController();
+    const resultPromise = bridge.withOptions({ signal: controller.signal }).invoke('search', 'foo');
+    controller.abort();
+
+    await expect(resultPromise).rejects.toThrow('RPC call to "search" was aborted');
+  });
+
+  it('should not send a request when the signal is already aborted', async () => {
+    type RemoteMethods = {
+      search: (query: string) => Promise<string[]>;
+    };
+
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {}
+    );
+
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      bridge.withOptions({ signal: controller.signal }).call.search('foo')
+    ).rejects.toThrow(RpcAbortedError);
+    expect(mockIframe.contentWindow.postMessage).not.toHaveBeenCalled();
+  });
+
+  it('should drop a queued request instead of sending a cancel message', async () => {
+    type RemoteMethods = {
+      search: (query: string) => Promise<string[]>;
+    };
+
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true }
+    );
+
+    const controller = new AbortController();
+    const resultPromise = bridge.withOptions({ signal: controller.signal }).call.search('foo');
+    controller.abort();
+    await expect(resultPromise).rejects.toThrow(RpcAbortedError);
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'remote-1' });
+
+    expect(sentOfType(MESSAGE_TYPE.REQUEST)).toHaveLength(0);
+    expect(sentOfType(MESSAGE_TYPE.CANCEL)).toHaveLength(0);
+  });
+
+  it('should not retry aborted calls', async () => {
+    type RemoteMethods = {
+      search: (query: string) => Promise<string[]>;
+    };
+
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { retry: { maxRetries: 3, retryDelay: 10, isRetryable: () => true } }
+    );
+
+    const controller = new AbortController();
+    const resultPromise = bridge.withOptions({ signal: controller.signal }).call.search('foo');
+    controller.abort();
+
+    await expect(resultPromise).rejects.toThrow(RpcAbortedError);
+    expect(sentOfType(MESSAGE_TYPE.REQUEST)).toHaveLength(1);
+  });
+
+  it('should pass an AbortSignal to handlers and abort it on cancel', async () => {
+    let receivedContext: HandlerContext | undefined;
+    const search = vi.fn((ctx: HandlerContext, _query: string) => {
+      receivedContext = ctx;
+      return new Promise<string[]>(() => { });
+    });
+    const handlers = { search: withContext(search) };
+
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers);
+
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'search', args: ['foo'] });
+    await new Promise((r) => setTimeout(r, 0));
+
+    expect(search).toHaveBeenCalledWith(expect.objectContaining({
+      signal: expect.any(AbortSignal),
+    }), 'foo');
+    expect(receivedContext?.signal.aborted).toBe(false);
+
+    dispatch({ type: MESSAGE_TYPE.CANCEL, id: 'req-1' });
+
+    expect(receivedContext?.signal.aborted).toBe(true);
+  });
+
+  it('should not respond to a cancelled request', async () => {
+    let finish!: (value: string) => void;
+    const handlers = {
+      slow: () => new Promise<string>((resolve) => { finish = resolve; }),
+    };
+
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers);
+
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'slow', args: [] });
+    dispatch({ type: MESSAGE_TYPE.CANCEL, id: 'req-1' });
+    finish('done');
+    await new Promise((r) => setTimeout(r, 0));
+
+    expect(sentOfType(MESSAGE_TYPE.RESPONSE)).toHaveLength(0);
+  });
+});
+
+describe('Per-call Options', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let sentOfType: WindowMessages['sentOfType'];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mockIframe = createMockIframe();
+    ({ sentOfType } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  type RemoteMethods = {
+    exportReport: () => Promise<Blob>;
+    getTitle: () => Promise<string>;
+    upload: (data: ArrayBuffer) => Promise<void>;
+    logEvent: (data: ArrayBuffer) => void;
+  };
+
+  it('should override the timeout for a single call', async () => {
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { timeout: 100 }
+    );
+
+    const slow = bridge.withOptions({ timeout: 1000 }).call.exportReport();
+    const fast = bridge.call.getTitle();
+    slow.catch(() => { });
+    fast.catch(() => { });
+
+    vi.advanceTimersByTime(150);
+    await expect(fast).rejects.toThrow('timed out after 100ms');
+
+    vi.advanceTimersByTime(900);
+    await expect(slow).rejects.toThrow('timed out after 1000ms');
+  });
+
+  it('should apply per-method options from the bridge configuration', async () => {
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { timeout: 100, methodOptions: { exportReport: { timeout: 500 } } }
+    );
+
+    const report = bridge.invoke('exportReport');
+    report.catch(() => { });
+
+    vi.advanceTimersByTime(150);
+    expect(sentOfType(MESSAGE_TYPE.REQUEST)).toHaveLength(1);
+
+    vi.advanceTimersByTime(350);
+    await expect(report).rejects.toThrow('timed out after 500ms');
+  });
+
+  it('should prefer call options over per-method options', async () => {
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { methodOptions: { exportReport: { timeout: 500 } } }
+    );
+
+    const report = bridge.withOptions({ timeout: 50 }).call.exportReport();
+    report.catch(() => { });
+
+    vi.advanceTimersByTime(50);
+    await expect(report).rejects.toThrow('timed out after 50ms');
+  });
+
+  it('should override retry options for a single call', async () => {
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { timeout: 100, retry: { maxRetries: 2, retryDelay: 10 } }
+    );
+
+    const result = bridge.withOptions({ retry: { maxRetries: 0 } }).call.getTitle();
+    result.catch(() => { });
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(result).rejects.toThrow(RpcTimeoutError);
+    expect(sentOfType(MESSAGE_TYPE.REQUEST)).toHaveLength(1);
+  });
+
+  it('should pass the transfer list to postMessage for calls and notifications', () => {
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { retry: { maxRetries: 3 } }
+    );
+    const buffer = new ArrayBuffer(8);
+
+    bridge.withOptions({ transfer: [buffer] }).call.upload(buffer).catch(() => { });
+    bridge.withOptions({ transfer: [buffer] }).notify('logEvent', buffer);
+
+    expect(mockIframe.contentWindow.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: MESSAGE_TYPE.REQUEST, args: [buffer] }),
+      '*',
+      [buffer]
+    );
+    expect(mockIframe.contentWindow.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: MESSAGE_TYPE.FIRE_AND_FORGET }),
+      '*',
+      [buffer]
+    );
+  });
+
+  it('should not retry calls with transferred objects', async () => {
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { timeout: 100, retry: { maxRetries: 3, retryDelay: 10 } }
+    );
+    const buffer = new ArrayBuffer(8);
+
+    const result = bridge.withOptions({ transfer: [buffer] }).call.upload(buffer);
+    result.catch(() => { });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(result).rejects.toThrow(RpcTimeoutError);
+    expect(sentOfType(MESSAGE_TYPE.REQUEST)).toHaveLength(1);
+  });
+});
+
+describe('Streaming Responses', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+  let sentOfType: WindowMessages['sentOfType'];
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    ({ dispatch, sentOfType } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  type RemoteMethods = {
+    logs: (since: number) => AsyncGenerator<string>;
+    getTitle: () => Promise<string>;
+  };
+
+  describe('caller side', () => {
+    it('should consume a streamed response with for await', async () => {
+      const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+        mockIframe as unknown as HTMLIFrameElement,
+        {},
+        { streamHighWaterMark: 4 }
+      );
+
+      const stream: AsyncIterableIterator<string> = bridge.call.logs(0);
+      const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+
+      dispatch({ type: MESSAGE_TYPE.STREAM_START, id: request.id });
+      expect(sentOfType(MESSAGE_TYPE.STREAM_PULL)).toEqual([
+        expect.objectContaining({ id: request.id, count: 4 }),
+      ]);
+
+      dispatch({ type: MESSAGE_TYPE.STREAM_CHUNK, id: request.id, value: 'a' });
+      dispatch({ type: MESSAGE_TYPE.STREAM_CHUNK, id: request.id, value: 'b' });
+      dispatch({ type: MESSAGE_TYPE.STREAM_END, id: request.id });
+
+      const values: string[] = [];
+      for await (const value of stream) values.push(value);
+
+      expect(values).toEqual(['a', 'b']);
+    });
+
+    it('should replenish credit as chunks are consumed', async () => {
+      const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+        mockIframe as unknown as HTMLIFrameElement,
+        {},
+        { streamHighWaterMark: 4 }
+      );
+
+      const stream = bridge.invoke('logs', 0);
+      const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+      dispatch({ type: MESSAGE_TYPE.STREAM_START, id: request.id });
+
+      dispatch({ type: MESSAGE_TYPE.STREAM_CHUNK, id: request.id, value: 'a' });
+      dispatch({ type: MESSAGE_TYPE.STREAM_CHUNK, id: request.id, value: 'b' });
+
+      await stream.next();
+      expect(sentOfType(MESSAGE_TYPE.STREAM_PULL)).toHaveLength(1);
+
+      await stream.next();
+      expect(sentOfType(MESSAGE_TYPE.STREAM_PULL)).toEqual([
+        expect.objectContaining({ count: 4 }),
+        expect.objectContaining({ count: 2 }),
+      ]);
+    });
+
+    it('should send a cancel message when the consumer stops early', async () => {
+      const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+        mockIframe as unknown as HTMLIFrameElement,
+        {}
+      );
+
+      const stream = bridge.call.logs(0);
+      const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+      dispatch({ type: MESSAGE_TYPE.STREAM_START, id: request.id });
+      dispatch({ type: MESSAGE_TYPE.STREAM_CHUNK, id: request.id, value: 'a' });
+
+      for await (const value of stream) {
+        expect(value).toBe('a');
+        break;
+      }
+
+      expect(sentOfType(MESSAGE_TYPE.CANCEL)).toEqual([
+        expect.objectContaining({ id: request.id }),
+      ]);
+    });
+
+    it('should reject the next read when the stream fails mid-way', async () => {
+      const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+        mockIframe as unknown as HTMLIFrameElement,
+        {}
+      );
+
+      const stream = bridge.call.logs(0);
+      const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+      dispatch({ type: MESSAGE_TYPE.STREAM_START, id: request.id });
+      dispatch({ type: MESSAGE_TYPE.STREAM_CHUNK, id: request.id, value: 'a' });
+      dispatch({
+        type: MESSAGE_TYPE.ERROR,
+        id: request.id,
+        error: { message: 'Log source failed', code: 'LOG_ERROR' },
+      });
+
+      await expect(stream.next()).resolves.toEqual({ value: 'a', done: false });
+      await expect(stream.next()).rejects.toThrow('Log source failed');
+    });
+
+    it('should reject iteration of a non-streaming result', async () => {
+      const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+        mockIframe as unknown as HTMLIFrameElement,
+        {}
+      );
+
+      const result = bridge.call.getTitle();
+      const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+      dispatch({ type: MESSAGE_TYPE.RESPONSE, id: request.id, result: 'Title' });
+
+      await expect(result).resolves.toBe('Title');
+      await expect((result as any).next()).rejects.toThrow('did not return a stream');
+    });
+  });
+
+  describe('handler side', () => {
+    it('should stream async generator results according to granted credit', async () => {
+      const handlers = {
+        logs: async function* () {
+          yield 'a';
+          yield 'b';
+          yield 'c';
+        },
+      };
+
+      createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers);
+
+      dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'logs', args: [] });
+      await flush();
+
+      expect(sentOfType(MESSAGE_TYPE.STREAM_START)).toHaveLength(1);
+      expect(sentOfType(MESSAGE_TYPE.STREAM_CHUNK)).toHaveLength(0);
+
+      dispatch({ type: MESSAGE_TYPE.STREAM_PULL, id: 'req-1', count: 2 });
+      await flush();
+      expect(sentOfType(MESSAGE_TYPE.STREAM_CHUNK).map((m: any) => m.value)).toEqual(['a', 'b']);
+
+      dispatch({ type: MESSAGE_TYPE.STREAM_PULL, id: 'req-1', count: 2 });
+      await flush();
+      expect(sentOfType(MESSAGE_TYPE.STREAM_CHUNK).map((m: any) => m.value)).toEqual(['a', 'b', 'c']);
+      expect(sentOfType(MESSAGE_TYPE.STREAM_END)).toHaveLength(1);
+      expect(sentOfType(MESSAGE_TYPE.RESPONSE)).toHaveLength(0);
+    });
+
+    it('should stop the generator when the caller cancels', async () => {
+      let cleanedUp = false;
+      const handlers = {
+        logs: async function* () {
+          try {
+            for (let i = 0; ; i++) yield i;
+          } finally {
+            cleanedUp = true;
+          }
+        },
+      };
+
+      createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers);
+
+      dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'logs', args: [] });
+      await flush();
+      dispatch({ type: MESSAGE_TYPE.STREAM_PULL, id: 'req-1', count: 1 });
+      await flush();
+
+      dispatch({ type: MESSAGE_TYPE.CANCEL, id: 'req-1' });
+      await flush();
+
+      expect(cleanedUp).toBe(true);
+      expect(sentOfType(MESSAGE_TYPE.STREAM_CHUNK)).toHaveLength(1);
+      expect(sentOfType(MESSAGE_TYPE.STREAM_END)).toHaveLength(0);
+    });
+
+    it('should send an error when the generator throws', async () => {
+      const handlers = {
+        logs: async function* () {
+          yield 'a';
+          throw new RpcError('Log source failed', 'LOG_ERROR');
+        },
+      };
+
+      createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers);
+
+      dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'logs', args: [] });
+      await flush();
+      dispatch({ type: MESSAGE_TYPE.STREAM_PULL, id: 'req-1', count: 5 });
+      await flush();
+
+      expect(sentOfType(MESSAGE_TYPE.ERROR)).toEqual([
+        expect.objectContaining({
+          id: 'req-1',
+          error: { message: 'Log source failed', code: 'LOG_ERROR' },
+        }),
+      ]);
+    });
+  });
+});
+
+describe('Remote Callbacks', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+  let sentOfType: WindowMessages['sentOfType'];
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    ({ dispatch, sentOfType } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  type RemoteMethods = {
+    upload: (name: string, onProgress: (percent: number) => void) => Promise<string>;
+    configure: (options: { onChange: (value: string) => string }) => Promise<void>;
+    subscribe: (listener: (event: string) => void) => void;
+  };
+
+  describe('caller side', () => {
+    it('should replace function arguments with callback references', () => {
+      const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+        mockIframe as unknown as HTMLIFrameElement,
+        {}
+      );
+
+      bridge.call.upload('file.png', () => { });
+      bridge.call.configure({ onChange: (value) => value });
+
+      const [upload, configure] = sentOfType(MESSAGE_TYPE.REQUEST);
+      expect(upload.args).toEqual(['file.png', { __iframeRpcCallback: expect.any(String) }]);
+      expect(configure.args).toEqual([{ onChange: { __iframeRpcCallback: expect.any(String) } }]);
+    });
+
+    it('should run the callback when the remote side invokes it', async () => {
+      const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+        mockIframe as unknown as HTMLIFrameElement,
+        {}
+      );
+      const onChange = vi.fn((value: string) => value.toUpperCase());
+
+      bridge.call.configure({ onChange });
+      const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+      const callbackId = request.args[0].onChange.__iframeRpcCallback;
+
+      dispatch({ type: MESSAGE_TYPE.CALLBACK, id: 'cb-call-1', callbackId, args: ['dark'] });
+      await flush();
+
+      expect(onChange).toHaveBeenCalledWith('dark');
+      expect(sentOfType(MESSAGE_TYPE.RESPONSE)).toEqual([
+        expect.objectContaining({ id: 'cb-call-1', result: 'DARK' }),
+      ]);
+    });
+
+    it('should release callbacks when the call completes', async () => {
+      const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+        mockIframe as unknown as HTMLIFrameElement,
+        {}
+      );
+      const onProgress = vi.fn();
+
+      const result = bridge.call.upload('file.png', onProgress);
+      const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+      const callbackId = request.args[1].__iframeRpcCallback;
+
+      dispatch({ type: MESSAGE_TYPE.RESPONSE, id: request.id, result: 'uploaded' });
+      await expect(result).resolves.toBe('uploaded');
+
+      dispatch({ type: MESSAGE_TYPE.CALLBACK, id: 'cb-call-1', callbackId, args: [100] });
+      await flush();
+
+      expect(onProgress).not.toHaveBeenCalled();
+      expect(sentOfType(MESSAGE_TYPE.ERROR)).toEqual([
+        expect.objectContaining({
+          id: 'cb-call-1',
+          error: { message: 'Callback has been released', code: 'CALLBACK_RELEASED' },
+        }),
+      ]);
+    });
+
+    it('should release notification callbacks when the remote proxy is released', async () => {
+      const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+        mockIframe as unknown as HTMLIFrameElement,
+        {}
+      );
+      const listener = vi.fn();
+
+      bridge.notify('subscribe', listener);
+      const [notification] = sentOfType(MESSAGE_TYPE.FIRE_AND_FORGET);
+      const callbackId = notification.args[0].__iframeRpcCallback;
+
+      dispatch({ type: MESSAGE_TYPE.CALLBACK, id: 'cb-call-1', callbackId, args: ['first'] });
+      await flush();
+      expect(listener).toHaveBeenCalledWith('first');
+
+      dispatch({ type: MESSAGE_TYPE.CALLBACK_RELEASE, callbackId });
+      dispatch({ type: MESSAGE_TYPE.CALLBACK, id: 'cb-call-2', callbackId, args: ['second'] });
+      await flush();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('handler side', () => {
+    it('should hand handlers a function that calls back across the bridge', async () => {
+      let progressResult: Promise<unknown> | undefined;
+      const handlers = {
+        upload: vi.fn((_name: string, onProgress: (percent: number) => void) => {
+          progressResult = onProgress(50) as unknown as Promise<unknown>;
+          return 'uploaded';
+        }),
+      };
+
+      createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers);
+
+      dispatch({
+        type: MESSAGE_TYPE.REQUEST,
+        id: 'req-1',
+        method: 'upload',
+        args: ['file.png', { __iframeRpcCallback: 'cb-1' }],
+      });
+      await flush();
+
+      const [callback] = sentOfType(MESSAGE_TYPE.CALLBACK);
+      expect(callback).toEqual(expect.objectContaining({ callbackId: 'cb-1', args: [50] }));
+
+      dispatch({ type: MESSAGE_TYPE.RESPONSE, id: callback.id, result: undefined });
+      await expect(progressResult).resolves.toBeUndefined();
+      expect(sentOfType(MESSAGE_TYPE.RESPONSE)).toEqual([
+        expect.objectContaining({ id: 'req-1', result: 'uploaded' }),
+      ]);
+    });
+  });
+});
+
+describe('Transferable Objects', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    ({ dispatch } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  type RemoteMethods = {
+    upload: (data: ArrayBuffer) => Promise<string>;
+    render: (frame: { pixels: ArrayBuffer; width: number }) => Promise<void>;
+    logEvent: (data: ArrayBuffer) => void;
+  };
+
+  it('should transfer arguments marked with transfer()', () => {
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {}
+    );
+    const buffer = new ArrayBuffer(8);
+    const pixels = new ArrayBuffer(16);
+
+    bridge.call.upload(transfer(buffer)).catch(() => { });
+    bridge.call.render(transfer({ pixels, width: 4 }, [pixels])).catch(() => { });
+    bridge.notify('logEvent', transfer(buffer));
+
+    const calls = mockIframe.contentWindow.postMessage.mock.calls;
+    expect(calls[0][2]).toEqual([buffer]);
+    expect(calls[1][2]).toEqual([pixels]);
+    expect(calls[1][0].args).toEqual([{ pixels, width: 4 }]);
+    expect(calls[2][2]).toEqual([buffer]);
+    bridge.destroy();
+  });
+
+  it('should merge marked arguments with the transfer call option without duplicates', () => {
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {}
+    );
+    const buffer = new ArrayBuffer(8);
+
+    bridge.withOptions({ transfer: [buffer] }).call.upload(transfer(buffer)).catch(() => { });
+
+    expect(mockIframe.contentWindow.postMessage.mock.calls[0][2]).toEqual([buffer]);
+    bridge.destroy();
+  });
+
+  it('should copy values that are not marked', () => {
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {}
+    );
+
+    bridge.call.upload(new ArrayBuffer(8)).catch(() => { });
+
+    expect(mockIframe.contentWindow.postMessage.mock.calls[0]).toHaveLength(2);
+    bridge.destroy();
+  });
+
+  it('should transfer handler results marked with transfer()', async () => {
+    const buffer = new ArrayBuffer(8);
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, {
+      readFile: () => transfer(buffer),
+    });
+
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'readFile', args: [] });
+    await flush();
+
+    const [message, , transferList] = mockIframe.contentWindow.postMessage.mock.calls[0];
+    expect(message).toEqual(expect.objectContaining({ type: MESSAGE_TYPE.RESPONSE, result: buffer }));
+    expect(transferList).toEqual([buffer]);
+  });
+
+  it('should transfer streamed chunks marked with transfer()', async () => {
+    const buffer = new ArrayBuffer(8);
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, {
+      chunks: async function* () {
+        yield transfer(buffer);
+      },
+    });
+
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'chunks', args: [] });
+    await flush();
+    dispatch({ type: MESSAGE_TYPE.STREAM_PULL, id: 'req-1', count: 16 });
+    await flush();
+
+    const chunkCall = mockIframe.contentWindow.postMessage.mock.calls
+      .find(([msg]) => msg.type === MESSAGE_TYPE.STREAM_CHUNK);
+    expect(chunkCall?.[2]).toEqual([buffer]);
+  });
+
+  it('should reject marking primitives', () => {
+    expect(() => transfer(42)).toThrow(TypeError);
+  });
+});
+
+describe('MessageChannel Transport', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+  let openPorts: MessagePort[];
+
+  // Collect what the bridge sends on the other end of its port
+  const listen = (port: MessagePort) => {
+    const received: any[] = [];
+    openPorts.push(port);
+    port.addEventListener('message', (event) => received.push((event as MessageEvent).data));
+    port.start();
+    return received;
+  };
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    openPorts = [];
+    ({ dispatch } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    openPorts.forEach((port) => port.close());
+    vi.restoreAllMocks();
+  });
+
+  type RemoteMethods = {
+    getStatus: () => Promise<string>;
+  };
+
+  it('should advertise MessageChannel support in the handshake', () => {
+    const bridge = createParentBridge(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true, messageChannel: true }
+    );
+
+    expect(mockIframe.contentWindow.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: MESSAGE_TYPE.SYN, messageChannel: true }),
+      '*'
+    );
+    bridge.destroy();
+  });
+
+  it('should hand the iframe a port and send calls over it', async () => {
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true, messageChannel: true }
+    );
+    const result = bridge.call.getStatus();
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'remote', messageChannel: true });
+
+    const windowCalls = mockIframe.contentWindow.postMessage.mock.calls;
+    expect(windowCalls.map(([msg]) => msg.type)).toEqual([MESSAGE_TYPE.SYN, MESSAGE_TYPE.PORT]);
+    const [portMessage, , transferList] = windowCalls[1];
+    expect(transferList).toEqual([portMessage.port]);
+    expect(bridge.isConnected()).toBe(true);
+
+    const received = listen(portMessage.port);
+    await vi.waitFor(() => expect(received).toEqual([
+      expect.objectContaining({ type: MESSAGE_TYPE.REQUEST, method: 'getStatus' }),
+    ]));
+
+    portMessage.port.postMessage({
+      __iframeRpc: true,
+      type: MESSAGE_TYPE.RESPONSE,
+      channel: 'default',
+      id: received[0].id,
+      result: 'ok',
+    });
+    await expect(result).resolves.toBe('ok');
+    bridge.destroy();
+  });
+
+  it('should ignore window messages other than the handshake once the port is in use', async () => {
+    const handlers = { getStatus: vi.fn(() => 'ok') };
+    const bridge = createParentBridge(
+      mockIframe as unknown as HTMLIFrameElement,
+      handlers,
+      { handshake: true, messageChannel: true }
+    );
+
+    dispatch({ type: MESSAGE_TYPE.SYN, session: 'remote', messageChannel: true });
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'spoofed', method: 'getStatus', args: [] });
+    await flush();
+
+    expect(handlers.getStatus).not.toHaveBeenCalled();
+    bridge.destroy();
+  });
+
+  it('should fall back to the window when the remote side does not support it', () => {
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true, messageChannel: true }
+    );
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'remote' });
+    bridge.call.getStatus().catch(() => { });
+
+    expect(mockIframe.contentWindow.postMessage.mock.calls.map(([msg]) => msg.type)).toEqual([
+      MESSAGE_TYPE.SYN,
+      MESSAGE_TYPE.REQUEST,
+    ]);
+    bridge.destroy();
+  });
+
+  it('should close the port and hand over a new one when the iframe reconnects', async () => {
+    const bridge = createParentBridge(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true, messageChannel: true }
+    );
+    const onDisconnect = vi.fn();
+    bridge.on('disconnect', onDisconnect);
+
+    dispatch({ type: MESSAGE_TYPE.SYN, session: 'remote', messageChannel: true });
+    dispatch({ type: MESSAGE_TYPE.SYN, session: 'remote', messageChannel: true });
+
+    const ports = mockIframe.contentWindow.postMessage.mock.calls
+      .filter(([msg]) => msg.type === MESSAGE_TYPE.PORT)
+      .map(([msg]) => msg.port);
+    expect(ports).toHaveLength(2);
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    expect(bridge.isConnected()).toBe(true);
+    ports.forEach((port) => openPorts.push(port));
+    bridge.destroy();
+  });
+
+  describe('iframe side', () => {
+    let originalParent: typeof window.parent;
+    let mockParent: ReturnType<typeof createMockWindow>;
+
+    beforeEach(() => {
+      originalParent = window.parent;
+      mockParent = createMockWindow();
+      Object.defineProperty(window, 'parent', {
+        value: mockParent,
+        writable: true,
+        configurable: true,
+      });
+    });
+
+    afterEach(() => {
+      Object.defineProperty(window, 'parent', {
+        value: originalParent,
+        writable: true,
+        configurable: true,
+      });
+    });
+
+    it('should wait for the port before connecting and answer requests over it', async () => {
+      const handlers = { getStatus: vi.fn(() => 'ok') };
+      const bridge = createIframeBridge(handlers, { handshake: true, messageChannel: true });
+
+      dispatch({ type: MESSAGE_TYPE.ACK, session: 'parent', messageChannel: true }, { source: mockParent });
+      expect(bridge.isConnected()).toBe(false);
+
+      const channel = new MessageChannel();
+      dispatch({ type: MESSAGE_TYPE.PORT, session: 'parent', port: channel.port2 }, { source: mockParent });
+      expect(bridge.isConnected()).toBe(true);
+
+      const received = listen(channel.port1);
+      channel.port1.postMessage({
+        __iframeRpc: true,
+        type: MESSAGE_TYPE.REQUEST,
+        channel: 'default',
+        id: 'req-1',
+        method: 'getStatus',
+        args: [],
+      });
+      await vi.waitFor(() => expect(received).toEqual([
+        expect.objectContaining({ type: MESSAGE_TYPE.RESPONSE, id: 'req-1', result: 'ok' }),
+      ]));
+
+      expect(handlers.getStatus).toHaveBeenCalled();
+      expect(mockParent.postMessage.mock.calls.map(([msg]) => msg.type)).toEqual([MESSAGE_TYPE.SYN]);
+      bridge.destroy();
+    });
+  });
+});
+
+describe('Transports', () => {
+  type WorkerMethods = {
+    double: (value: number) => Promise<number>;
+    count: (to: number) => AsyncIterable<number>;
+  };
+
+  type PageMethods = {
+    log: (message: string) => void;
+  };
+
+  const workerHandlers = {
+    double: async (value: number) => value * 2,
+    count: async function* (to: number) {
+      for (let i = 1; i <= to; i++) yield i;
+    },
+  };
+
+  const collect = async <T>(iterable: AsyncIterable<T>) => {
+    const values: T[] = [];
+    for await (const value of iterable) values.push(value);
+    return values;
+  };
+
+  it('should connect two bridges over an in-memory transport pair', async () => {
+    const [pageTransport, workerTransport] = createInMemoryTransportPair();
+    const log = vi.fn();
+
+    const page = createBridge<PageMethods, WorkerMethods>(pageTransport, { log }, { handshake: true });
+    const worker = createBridge<WorkerMethods, PageMethods>(workerTransport, workerHandlers, { handshake: true });
+
+    await expect(page.call.double(21)).resolves.toBe(42);
+    await expect(collect(page.call.count(3))).resolves.toEqual([1, 2, 3]);
+
+    worker.notify('log', 'hello');
+    await vi.waitFor(() => expect(log).toHaveBeenCalledWith('hello'));
+
+    page.destroy();
+    worker.destroy();
+  });
+
+  it('should connect two bridges over a MessageChannel', async () => {
+    const channel = new MessageChannel();
+    const page = createBridge<PageMethods, WorkerMethods>(createMessagePortTransport(channel.port1), { log: () => { } });
+    const worker = createBridge<WorkerMethods, PageMethods>(createMessagePortTransport(channel.port2), workerHandlers);
+
+    await expect(page.call.double(5)).resolves.toBe(10);
+
+    page.destroy();
+    worker.destroy();
+  });
+
+  it('should connect two bridges over a BroadcastChannel', async () => {
+    const page = createBridge<PageMethods, WorkerMethods>(
+      createBroadcastChannelTransport('iframe-rpc-test'),
+      { log: () => { } }
+    );
+    const worker = createBridge<WorkerMethods, PageMethods>(
+      createBroadcastChannelTransport('iframe-rpc-test'),
+      workerHandlers
+    );
+
+    await expect(page.call.double(4)).resolves.toBe(8);
+
+    page.destroy();
+    worker.destroy();
+  });
+
+  it('should post to a worker and leave it running when the bridge is destroyed', () => {
+    const worker = {
+      postMessage: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      terminate: vi.fn(),
+    };
+
+    const bridge = createBridge<PageMethods, WorkerMethods>(
+      createWorkerTransport(worker as unknown as Worker),
+      { log: () => { } }
+    );
+    bridge.call.double(1).catch(() => { });
+
+    expect(worker.addEventListener).toHaveBeenCalledWith('message', expect.any(Function));
+    expect(worker.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: MESSAGE_TYPE.REQUEST, method: 'double', args: [1] }),
+      []
+    );
+
+    bridge.destroy();
+    expect(worker.removeEventListener).toHaveBeenCalledWith('message', expect.any(Function));
+    expect(worker.terminate).not.toHaveBeenCalled();
+  });
+
+  it('should start a worker from a script URL and terminate it with the bridge', () => {
+    const worker = {
+      postMessage: vi.fn(),
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+      terminate: vi.fn(),
+    };
+    const Worker = vi.fn(() => worker);
+    vi.stubGlobal('Worker', Worker);
+
+    try {
+      const bridge = createBridge(createWorkerTransport('worker.js', { type: 'module' }), {});
+
+      expect(Worker).toHaveBeenCalledWith('worker.js', { type: 'module' });
+      expect(worker.addEventListener).toHaveBeenCalledWith('message', expect.any(Function));
+
+      bridge.destroy();
+      expect(worker.terminate).toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should accept custom transports', async () => {
+    const sent: unknown[] = [];
+    let deliver: (data: unknown) => void = () => { };
+    const close = vi.fn();
+    const transport: Transport = {
+      send: (message) => sent.push(message),
+      subscribe: (listener) => {
+        deliver = listener;
+        return () => { deliver = () => { }; };
+      },
+      close,
+    };
+
+    const bridge = createBridge<PageMethods, WorkerMethods>(transport, { log: () => { } });
+    const result = bridge.call.double(3);
+
+    const [request] = sent as { id: string }[];
+    deliver({ __iframeRpc: true, type: MESSAGE_TYPE.RESPONSE, channel: 'default', id: request.id, result: 6 });
+    await expect(result).resolves.toBe(6);
+
+    bridge.destroy();
+    expect(close).toHaveBeenCalled();
+  });
+});
+
+describe('Batch Calls', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+  let sent: WindowMessages['sent'];
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    ({ dispatch, sent } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  type RemoteMethods = {
+    getUser: (id: string) => Promise<{ name: string }>;
+    getPrefs: () => Promise<{ theme: string }>;
+    logEvent: (event: string) => void;
+  };
+
+  describe('caller side', () => {
+    it('should send the calls made in batch() as one message', () => {
+      const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+        mockIframe as unknown as HTMLIFrameElement,
+        {}
+      );
+
+      const results = bridge.batch((b) => {
+        b.notify('logEvent', 'mounted');
+        return [b.call.getUser('1'), b.call.getPrefs()];
+      });
+      results.forEach((result) => result.catch(() => { }));
+
+      expect(results).toHaveLength(2);
+      expect(sent()).toEqual([
+        expect.objectContaining({
+          type: MESSAGE_TYPE.BATCH,
+          messages: [
+            expect.objectContaining({ type: MESSAGE_TYPE.FIRE_AND_FORGET, method: 'logEvent' }),
+            expect.objectContaining({ type: MESSAGE_TYPE.REQUEST, method: 'getUser', args: ['1'] }),
+            expect.objectContaining({ type: MESSAGE_TYPE.REQUEST, method: 'getPrefs' }),
+          ],
+        }),
+      ]);
+      bridge.destroy();
+    });
+
+    it('should resolve and reject batched calls independently', async () => {
+      const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+        mockIframe as unknown as HTMLIFrameElement,
+        {}
+      );
+
+      const [user, prefs] = bridge.batch((b) => [b.call.getUser('1'), b.call.getPrefs()]);
+      const [getUser, getPrefs] = sent()[0].messages;
+
+      dispatch({
+        type: MESSAGE_TYPE.BATCH,
+        messages: [
+          { __iframeRpc: true, type: MESSAGE_TYPE.RESPONSE, channel: 'default', id: getUser.id, result: { name: 'Ada' } },
+          { __iframeRpc: true, type: MESSAGE_TYPE.ERROR, channel: 'default', id: getPrefs.id, error: { message: 'No prefs' } },
+        ],
+      });
+
+      await expect(user).resolves.toEqual({ name: 'Ada' });
+      await expect(prefs).rejects.toThrow('No prefs');
+      bridge.destroy();
+    });
+
+    it('should coalesce calls made in the same microtask with autoBatch', async () => {
+      const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+        mockIframe as unknown as HTMLIFrameElement,
+        {},
+        { autoBatch: true }
+      );
+
+      bridge.call.getUser('1').catch(() => { });
+      bridge.call.getUser('2').catch(() => { });
+      expect(sent()).toEqual([]);
+
+      await Promise.resolve();
+      expect(sent()).toEqual([
+        expect.objectContaining({
+          type: MESSAGE_TYPE.BATCH,
+          messages: [
+            expect.objectContaining({ args: ['1'] }),
+            expect.objectContaining({ args: ['2'] }),
+          ],
+        }),
+      ]);
+
+      bridge.call.getPrefs().catch(() => { });
+      await Promise.resolve();
+      expect(sent()[1]).toEqual(expect.objectContaining({ type: MESSAGE_TYPE.REQUEST, method: 'getPrefs' }));
+      bridge.destroy();
+    });
+
+    it('should drop calls cancelled before the batch is sent', async () => {
+      const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+        mockIframe as unknown as HTMLIFrameElement,
+        {},
+        { autoBatch: true }
+      );
+      const controller = new AbortController();
+
+      const cancelled = bridge.withOptions({ signal: controller.signal }).call.getUser('1');
+      bridge.call.getPrefs().catch(() => { });
+      controller.abort();
+      await expect(cancelled).rejects.toThrow(RpcAbortedError);
+
+      expect(sent()).toEqual([
+        expect.objectContaining({ type: MESSAGE_TYPE.REQUEST, method: 'getPrefs' }),
+      ]);
+      bridge.destroy();
+    });
+  });
+
+  describe('handler side', () => {
+    it('should answer the requests of a batch that are ready together without waiting for slow ones', async () => {
+      let finishSlow: (value: string) => void = () => { };
+      createParentBridge(mockIframe as unknown as HTMLIFrameElement, {
+        fast: () => 'fast',
+        slow: () => new Promise<string>((resolve) => { finishSlow = resolve; }),
+      });
+
+      dispatch({
+        type: MESSAGE_TYPE.BATCH,
+        messages: [
+          { __iframeRpc: true, type: MESSAGE_TYPE.REQUEST, channel: 'default', id: 'req-1', method: 'fast', args: [] },
+          { __iframeRpc: true, type: MESSAGE_TYPE.REQUEST, channel: 'default', id: 'req-2', method: 'slow', args: [] },
+          { __iframeRpc: true, type: MESSAGE_TYPE.REQUEST, channel: 'default', id: 'req-3', method: 'missing', args: [] },
+        ],
+      });
+      await flush();
+
+      expect(sent()).toEqual([
+        expect.objectContaining({
+          type: MESSAGE_TYPE.BATCH,
+          messages: [
+            expect.objectContaining({ type: MESSAGE_TYPE.ERROR, id: 'req-3' }),
+            expect.objectContaining({ type: MESSAGE_TYPE.RESPONSE, id: 'req-1', result: 'fast' }),
+          ],
+        }),
+      ]);
+
+      finishSlow('slow');
+      await flush();
+
+      expect(sent()).toHaveLength(2);
+      expect(sent()[1]).toEqual(
+        expect.objectContaining({ type: MESSAGE_TYPE.RESPONSE, id: 'req-2', result: 'slow' })
+      );
+    });
+
+    it('should resolve fast calls of a batch before a slow one times out', async () => {
+      const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+      const local = createBridge<Record<string, never>, { fast: () => string; slow: () => string }>(
+        parentTransport,
+        {},
+        { timeout: 100 }
+      );
+      const remote = createBridge(iframeTransport, {
+        fast: () => 'fast',
+        slow: () => new Promise<string>((resolve) => setTimeout(() => resolve('slow'), 300)),
+      });
+
+      const [fast, slow] = local.batch((b) => [b.call.fast(), b.call.slow()]);
+
+      await expect(fast).resolves.toBe('fast');
+      await expect(slow).rejects.toThrow(RpcTimeoutError);
+      local.destroy();
+      remote.destroy();
+    });
+
+    it('should work end to end with auto-batching on both sides', async () => {
+      const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+      const local = createBridge<Record<string, never>, RemoteMethods>(parentTransport, {}, { autoBatch: true });
+      const remote = createBridge<RemoteMethods, Record<string, never>>(iframeTransport, {
+        getUser: async (id: string) => ({ name: `user-${id}` }),
+        getPrefs: async () => { throw new Error('No prefs'); },
+        logEvent: () => { },
+      });
+
+      const [user, prefs] = [local.call.getUser('1'), local.call.getPrefs()];
+
+      await expect(user).resolves.toEqual({ name: 'user-1' });
+      await expect(prefs).rejects.toThrow('No prefs');
+      local.destroy();
+      remote.destroy();
+    });
+  });
+});
+
+describe('Schema Validation', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+  let sentOfType: WindowMessages['sentOfType'];
+
+  // Minimal Standard Schema implementation, standing in for zod/valibot
+  const createSchema = <T>(
+    check: (value: unknown) => string | null,
+    transform: (value: unknown) => T = (value) => value as T
+  ): StandardSchemaV1<unknown, T> => ({
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: async (value) => {
+        const message = check(value);
+        return message ? { issues: [{ message, path: [0] }] } : { value: transform(value) };
+      },
+    },
+  });
+
+  const userIdArgs = createSchema(
+    (args) => (Array.isArray(args) && typeof args[0] === 'string' ? null : 'Expected a string'),
+    (args) => [(args as string[])[0].trim()]
+  );
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    ({ dispatch, sentOfType } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should reject invalid arguments before the handler runs', async () => {
+    const handlers = { getUser: vi.fn() };
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers, {
+      schemas: { args: { getUser: userIdArgs } },
+    });
+
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'getUser', args: [42] });
+    await flush();
+
+    expect(handlers.getUser).not.toHaveBeenCalled();
+    expect(sentOfType(MESSAGE_TYPE.ERROR)).toEqual([
+      expect.objectContaining({
+        id: 'req-1',
+        error: {
+          message: 'Invalid arguments for "getUser": 0: Expected a string',
+          code: 'VALIDATION_ERROR',
+        },
+      }),
+    ]);
+  });
+
+  it('should pass the validated arguments to the handler', async () => {
+    const handlers = { getUser: vi.fn((id: string) => ({ id })) };
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers, {
+      schemas: { args: { getUser: userIdArgs } },
+    });
+
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'getUser', args: ['  42 '] });
+    await flush();
+
+    expect(handlers.getUser).toHaveBeenCalledWith('42');
+    expect(sentOfType(MESSAGE_TYPE.RESPONSE)).toEqual([
+      expect.objectContaining({ id: 'req-1', result: { id: '42' } }),
+    ]);
+  });
+
+  it('should drop notifications with invalid arguments', async () => {
+    const handlers = { track: vi.fn() };
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers, {
+      schemas: { args: { track: userIdArgs } },
+    });
+
+    dispatch({ type: MESSAGE_TYPE.FIRE_AND_FORGET, method: 'track', args: [null] });
+    dispatch({ type: MESSAGE_TYPE.FIRE_AND_FORGET, method: 'track', args: ['page'] });
+    await flush();
+
+    expect(handlers.track).toHaveBeenCalledTimes(1);
+    expect(handlers.track).toHaveBeenCalledWith('page');
+  });
+
+  it('should validate results on the caller side', async () => {
+    type RemoteMethods = {
+      getCount: () => Promise<number>;
+    };
+    const countResult = createSchema(
+      (value) => (typeof value === 'number' ? null : 'Expected a number'),
+      (value) => Math.round(value as number)
+    );
+
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { schemas: { results: { getCount: countResult } } }
+    );
+
+    const valid = bridge.call.getCount();
+    const invalid = bridge.call.getCount();
+    const [first, second] = sentOfType(MESSAGE_TYPE.REQUEST);
+    dispatch({ type: MESSAGE_TYPE.RESPONSE, id: first.id, result: 2.6 });
+    dispatch({ type: MESSAGE_TYPE.RESPONSE, id: second.id, result: 'many' });
+
+    await expect(valid).resolves.toBe(3);
+    const error = await invalid.catch((e) => e);
+    expect(error).toBeInstanceOf(RpcValidationError);
+    expect(error.code).toBe('VALIDATION_ERROR');
+    expect(error.target).toBe('result');
+    expect(error.issues).toEqual([{ message: 'Expected a number', path: [0] }]);
+  });
+
+  it('should reject the call when a result schema throws', async () => {
+    const throwing: StandardSchemaV1<unknown, number> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: () => {
+          throw new Error('Schema crashed');
+        },
+      },
+    };
+    const bridge = createParentBridge<Record<string, never>, { getCount: () => Promise<number> }>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { schemas: { results: { getCount: throwing } } }
+    );
+
+    const count = bridge.call.getCount();
+    const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+    dispatch({ type: MESSAGE_TYPE.RESPONSE, id: request.id, result: 1 });
+
+    await expect(count).rejects.toThrow('Schema crashed');
+  });
+});
+
+describe('Contracts', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+  let sentOfType: WindowMessages['sentOfType'];
+
+  const IframeContract = defineContract({
+    getStatus: method.request<() => Promise<'ready' | 'loading'>>(),
+    track: method.notify<(event: string) => void>(),
+    tail: method.stream<(lines: number) => AsyncIterable<string>>(),
+  });
+  type IframeMethods = InferContract<typeof IframeContract>;
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    ({ dispatch, sentOfType } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should reject methods missing from the remote contract without sending', async () => {
+    const bridge = createParentBridge<Record<string, never>, IframeMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { contracts: { remote: IframeContract } }
+    );
+
+    const call = (bridge.call as any).getStatuss();
+    (bridge.notify as any)('trak', 'click');
+
+    await expect(call).rejects.toBeInstanceOf(RpcMethodNotFoundError);
+    await expect(call).rejects.toThrow('Method "getStatuss" not found');
+    expect(mockIframe.contentWindow.postMessage).not.toHaveBeenCalled();
+
+    bridge.call.getStatus();
+    bridge.notify('track', 'click');
+    expect(sentOfType(MESSAGE_TYPE.REQUEST)).toEqual([expect.objectContaining({ method: 'getStatus' })]);
+    expect(sentOfType(MESSAGE_TYPE.FIRE_AND_FORGET)).toEqual([expect.objectContaining({ method: 'track' })]);
+  });
+
+  it('should announce the local manifest in the handshake', () => {
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, {}, {
+      handshake: true,
+      contracts: { local: IframeContract },
+    });
+
+    expect(sentOfType(MESSAGE_TYPE.SYN)).toEqual([
+      expect.objectContaining({
+        manifest: { getStatus: 'request', track: 'notify', tail: 'stream' },
+      }),
+    ]);
+
+    dispatch({ type: MESSAGE_TYPE.SYN, session: 'remote-session' });
+    expect(sentOfType(MESSAGE_TYPE.ACK)).toEqual([
+      expect.objectContaining({
+        manifest: { getStatus: 'request', track: 'notify', tail: 'stream' },
+      }),
+    ]);
+  });
+
+  it('should refuse to connect to a remote bridge that does not match the contract', async () => {
+    const bridge = createParentBridge<Record<string, never>, IframeMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true, contracts: { remote: IframeContract } }
+    );
+    const onConnect = vi.fn();
+    bridge.on('connect', onConnect);
+    const queued = bridge.call.getStatus();
+
+    dispatch({
+      type: MESSAGE_TYPE.ACK,
+      session: 'remote-session',
+      manifest: { getStatus: 'request', track: 'request' },
+    });
+
+    const error = await bridge.ready.catch((e) => e);
+    expect(error).toBeInstanceOf(RpcContractMismatchError);
+    expect(error.code).toBe('CONTRACT_MISMATCH');
+    expect(error.message).toBe(
+      'Remote bridge does not match the contract: ' +
+      '"track" is a request method on the remote side, expected notify; ' +
+      '"tail" is not provided by the remote side'
+    );
+    await expect(queued).rejects.toBe(error);
+    expect(bridge.isConnected()).toBe(false);
+    expect(onConnect).not.toHaveBeenCalled();
+    expect(sentOfType(MESSAGE_TYPE.REQUEST)).toHaveLength(0);
+  });
+
+  it('should reject calls made after the refusal until a compatible bridge connects', async () => {
+    const bridge = createParentBridge<Record<string, never>, IframeMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true, contracts: { remote: IframeContract } }
+    );
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'old-session', manifest: { getStatus: 'request' } });
+    const error = await bridge.ready.catch((e) => e);
+    expect(error).toBeInstanceOf(RpcContractMismatchError);
+
+    await expect(bridge.call.getStatus()).rejects.toBe(error);
+    bridge.notify('track', 'click');
+    await flush();
+    expect(sentOfType(MESSAGE_TYPE.REQUEST)).toHaveLength(0);
+    expect(sentOfType(MESSAGE_TYPE.FIRE_AND_FORGET)).toHaveLength(0);
+
+    // The iframe reloads with a matching bridge
+    dispatch({
+      type: MESSAGE_TYPE.SYN,
+      session: 'new-session',
+      manifest: { getStatus: 'request', track: 'notify', tail: 'stream' },
+    });
+    expect(bridge.isConnected()).toBe(true);
+    void bridge.call.getStatus();
+    await flush();
+    expect(sentOfType(MESSAGE_TYPE.REQUEST)).toHaveLength(1);
+  });
+
+  it('should connect end to end when both sides agree', async () => {
+    const ParentContract = defineContract({
+      getUser: method.request<(id: string) => Promise<{ name: string }>>(),
+    });
+    type ParentMethods = InferContract<typeof ParentContract>;
+
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    const parent = createBridge<ParentMethods, IframeMethods>(
+      parentTransport,
+      { getUser: async (id) => ({ name: `user-${id}` }) },
+      { handshake: true, contracts: { local: ParentContract, remote: IframeContract } }
+    );
+    const iframe = createBridge<IframeMethods, ParentMethods>(
+      iframeTransport,
+      {
+        getStatus: async () => 'ready',
+        track: () => { },
+        tail: async function* () { yield 'line'; },
+      },
+      { handshake: true, contracts: { local: IframeContract, remote: ParentContract } }
+    );
+
+    await Promise.all([parent.ready, iframe.ready]);
+    await expect(parent.call.getStatus()).resolves.toBe('ready');
+    await expect(iframe.call.getUser('1')).resolves.toEqual({ name: 'user-1' });
+    parent.destroy();
+    iframe.destroy();
+  });
+
+  it('should validate with the schemas declared in contracts', async () => {
+    const isString: StandardSchemaV1 = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => typeof value === 'string'
+          ? { value }
+          : { issues: [{ message: 'Expected a string' }] },
+      },
+    };
+    const Contract = defineContract({
+      getStatus: method.request<() => Promise<string>>({ result: isString }),
+    });
+
+    const bridge = createParentBridge<Record<string, never>, InferContract<typeof Contract>>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { contracts: { remote: Contract } }
+    );
+
+    const status = bridge.call.getStatus();
+    const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+    dispatch({ type: MESSAGE_TYPE.RESPONSE, id: request.id, result: 42 });
+
+    await expect(status).rejects.toBeInstanceOf(RpcValidationError);
+  });
+});
+
+describe('Remote Discovery', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+  let sentOfType: WindowMessages['sentOfType'];
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    ({ dispatch, sentOfType } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should describe the remote handlers and versions', async () => {
+    const Contract = defineContract({
+      getStatus: method.request<() => Promise<string>>(),
+    });
+
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    const parent = createBridge<Record<string, never>, InferContract<typeof Contract>>(
+      parentTransport,
+      {},
+      { contracts: { remote: Contract } }
+    );
+    const iframe = createBridge(
+      iframeTransport,
+      { getStatus: async () => 'ready', track: () => { } },
+      { contracts: { version: '2.1.0' } }
+    );
+
+    await expect(parent.describeRemote()).resolves.toEqual({
+      methods: ['getStatus', 'track'],
+      protocolVersion: PROTOCOL_VERSION,
+      contractVersion: '2.1.0',
+    });
+    parent.destroy();
+    iframe.destroy();
+  });
+
+  it('should send the contract version in the handshake', () => {
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, {}, {
+      handshake: true,
+      contracts: { version: '2.1.0' },
+    });
+
+    expect(sentOfType(MESSAGE_TYPE.SYN)).toEqual([
+      expect.objectContaining({ contractVersion: '2.1.0' }),
+    ]);
+  });
+
+  it('should refuse to connect when the remote contract version is incompatible', async () => {
+    const isCompatible = vi.fn((version?: string) => version?.startsWith('2.') ?? false);
+    const bridge = createParentBridge(mockIframe as unknown as HTMLIFrameElement, {}, {
+      handshake: true,
+      contracts: { isCompatible },
+    });
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'remote-session', contractVersion: '1.4.0' });
+
+    const error = await bridge.ready.catch((e) => e);
+    expect(isCompatible).toHaveBeenCalledWith('1.4.0');
+    expect(error).toBeInstanceOf(RpcContractMismatchError);
+    expect(error.message).toBe(
+      'Remote bridge does not match the contract: contract version "1.4.0" of the remote side is not compatible'
+    );
+    expect(bridge.isConnected()).toBe(false);
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'other-session', contractVersion: '2.0.0' });
+    await expect(bridge.whenConnected()).resolves.toBeUndefined();
+    expect(bridge.isConnected()).toBe(true);
+  });
+
+  it('should reject describeRemote() when the remote bridge does not support it', async () => {
+    const bridge = createParentBridge(mockIframe as unknown as HTMLIFrameElement, {});
+
+    const description = bridge.describeRemote();
+    const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+    dispatch({
+      type: MESSAGE_TYPE.ERROR,
+      id: request.id,
+      error: { message: `Method "${request.method}" not found`, code: 'METHOD_NOT_FOUND' },
+    });
+
+    await expect(description).rejects.toMatchObject({ code: 'METHOD_NOT_FOUND' });
+  });
+});
+
+describe('Protocol Compatibility', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+  let sent: WindowMessages['sent'];
+  let sentOfType: WindowMessages['sentOfType'];
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    ({ dispatch, sent, sentOfType } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Changing the wire format of version 1 breaks bridges of other versions:
+  // increase PROTOCOL_VERSION instead
+  it('should keep the version 1 wire format', () => {
+    expect(PROTOCOL_VERSION).toBe(1);
+
+    const bridge = createParentBridge(mockIframe as unknown as HTMLIFrameElement, {}, { handshake: true });
+    bridge.invoke('getUser' as never, '1' as never);
+    bridge.notify('track' as never, 'click' as never);
+
+    expect(sentOfType(MESSAGE_TYPE.SYN)).toEqual([{
+      __iframeRpc: true,
+      v: 1,
+      type: 'iframe-rpc:syn',
+      channel: 'default',
+      session: expect.any(String),
+      messageChannel: false,
+    }]);
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'remote-session' });
+    expect(sentOfType(MESSAGE_TYPE.REQUEST)).toEqual([{
+      __iframeRpc: true,
+      v: 1,
+      type: 'iframe-rpc:request',
+      channel: 'default',
+      id: expect.any(String),
+      method: 'getUser',
+      args: ['1'],
+    }]);
+    expect(sentOfType(MESSAGE_TYPE.FIRE_AND_FORGET)).toEqual([{
+      __iframeRpc: true,
+      v: 1,
+      type: 'iframe-rpc:fire-and-forget',
+      channel: 'default',
+      method: 'track',
+      args: ['click'],
+    }]);
+  });
+
+  it('should send the protocol version in every message', async () => {
+    const bridge = createParentBridge(mockIframe as unknown as HTMLIFrameElement, {
+      echo: (value: string) => value,
+    });
+
+    bridge.batch((b) => [b.invoke('a' as never), b.invoke('b' as never)]);
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'echo', args: ['hi'] });
+    dispatch({ type: MESSAGE_TYPE.PING, id: 'ping-1' });
+    await flush();
+
+    const messages = sent();
+    expect(messages.length).toBeGreaterThanOrEqual(3);
+    for (const message of messages) {
+      expect(message.v).toBe(PROTOCOL_VERSION);
+    }
+    const [batch] = sentOfType(MESSAGE_TYPE.BATCH);
+    expect(batch.messages.map((m: any) => m.v)).toEqual([PROTOCOL_VERSION, PROTOCOL_VERSION]);
+  });
+
+  it('should handle messages without a version from older bridges', async () => {
+    const handlers = { echo: vi.fn((value: string) => value) };
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers);
+
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'echo', args: ['hi'] });
+    await flush();
+
+    expect(sentOfType(MESSAGE_TYPE.RESPONSE)).toEqual([
+      expect.objectContaining({ id: 'req-1', result: 'hi' }),
+    ]);
+  });
+
+  it('should answer unknown message types from newer bridges with an error', async () => {
+    const handlers = { echo: vi.fn((value: string) => value) };
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers);
+
+    dispatch({ type: 'iframe-rpc:subscribe', v: 1, id: 'sub-1', topic: 'news' });
+    dispatch({ type: 'iframe-rpc:hint', v: 1, level: 3 });
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'echo', args: ['still works'] });
+    await flush();
+
+    expect(sentOfType(MESSAGE_TYPE.ERROR)).toEqual([
+      expect.objectContaining({
+        id: 'sub-1',
+        error: expect.objectContaining({
+          message: 'Unsupported message type "iframe-rpc:subscribe"',
+          code: 'UNSUPPORTED_MESSAGE',
+        }),
+      }),
+    ]);
+    expect(sentOfType(MESSAGE_TYPE.RESPONSE)).toEqual([
+      expect.objectContaining({ id: 'req-1', result: 'still works' }),
+    ]);
+  });
+
+  it('should reject requests of a newer protocol version', async () => {
+    const handlers = { echo: vi.fn() };
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers);
+
+    dispatch({ type: MESSAGE_TYPE.REQUEST, v: 2, id: 'req-1', method: 'echo', args: [] });
+    await flush();
+
+    expect(handlers.echo).not.toHaveBeenCalled();
+    expect(sentOfType(MESSAGE_TYPE.ERROR)).toEqual([
+      expect.objectContaining({
+        id: 'req-1',
+        error: expect.objectContaining({
+          message: 'Remote bridge uses protocol version 2, this library supports up to 1',
+          code: 'UNSUPPORTED_PROTOCOL',
+        }),
+      }),
+    ]);
+  });
+
+  it('should refuse a handshake of a newer protocol version', async () => {
+    const bridge = createParentBridge(mockIframe as unknown as HTMLIFrameElement, {}, { handshake: true });
+
+    dispatch({ type: MESSAGE_TYPE.SYN, v: 2, session: 'remote-session' });
+
+    const error = await bridge.ready.catch((e) => e);
+    expect(error).toBeInstanceOf(RpcProtocolError);
+    expect(error.version).toBe(2);
+    expect(bridge.isConnected()).toBe(false);
+    // The newer bridge still learns which version we speak
+    expect(sentOfType(MESSAGE_TYPE.ACK)).toEqual([expect.objectContaining({ v: PROTOCOL_VERSION })]);
+  });
+
+  it('should reject calls made after refusing a newer protocol version', async () => {
+    const bridge = createParentBridge<Record<string, never>, { echo: (value: string) => Promise<string> }>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { handshake: true, timeout: 60000 }
+    );
+
+    dispatch({ type: MESSAGE_TYPE.ACK, v: 2, session: 'remote-session' });
+    const error = await bridge.ready.catch((e) => e);
+
+    await expect(bridge.call.echo('hi')).rejects.toBe(error);
+    expect(sentOfType(MESSAGE_TYPE.REQUEST)).toHaveLength(0);
+  });
+});
+
+describe('Middleware', () => {
+  type RemoteMethods = {
+    getUser: (id: string) => Promise<{ name: string }>;
+    track: (event: string) => void;
+  };
+
+  const connect = (handlers: Record<string, (...args: any[]) => any> = {}) => {
+    const [localTransport, remoteTransport] = createInMemoryTransportPair();
+    const local = createBridge<Record<string, never>, RemoteMethods>(localTransport, {});
+    const remote = createBridge(remoteTransport, {
+      getUser: async (id: string) => ({ name: `user-${id}` }),
+      track: () => { },
+      ...handlers,
+    });
+    return { local, remote };
+  };
+
+  it('should run caller middleware in order around the call', async () => {
+    const { local, remote } = connect();
+    const order: string[] = [];
+    local.use({
+      call: async (call, next) => {
+        order.push(`first:${call.method}`);
+        const result = await next();
+        order.push('first:done');
+        return result;
+      },
+    });
+    local.use({
+      call: async (call, next) => {
+        order.push('second');
+        call.args = [`${call.args[0]}-changed`];
+        return next();
+      },
+    });
+
+    await expect(local.call.getUser('1')).resolves.toEqual({ name: 'user-1-changed' });
+    expect(order).toEqual(['first:getUser', 'second', 'first:done']);
+    local.destroy();
+    remote.destroy();
+  });
+
+  it('should short-circuit calls without sending them', async () => {
+    const send = vi.fn();
+    const bridge = createBridge<Record<string, never>, RemoteMethods>(
+      { send, subscribe: () => () => { } },
+      {}
+    );
+    bridge.use({ call: async () => ({ name: 'cached' }) });
+
+    await expect(bridge.call.getUser('1')).resolves.toEqual({ name: 'cached' });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should keep a batch open until async caller middleware sends its calls', async () => {
+    const send = vi.fn();
+    const bridge = createBridge<Record<string, never>, RemoteMethods>(
+      { send, subscribe: () => () => { } },
+      {}
+    );
+    bridge.use({
+      call: async (call, next) => {
+        call.meta.token = await Promise.resolve('token');
+        return next();
+      },
+    });
+
+    bridge.batch((b) => {
+      void b.call.getUser('1');
+      void b.call.getUser('2');
+      b.notify('track', 'click');
+    });
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.waitFor(() => expect(send).toHaveBeenCalledTimes(1));
+    const [[message]] = send.mock.calls;
+    expect(message.type).toBe(MESSAGE_TYPE.BATCH);
+    expect(message.messages.map((m: any) => [m.method, m.meta])).toEqual([
+      ['getUser', { token: 'token' }],
+      ['getUser', { token: 'token' }],
+      ['track', { token: 'token' }],
+    ]);
+  });
+
+  it('should run caller middleware for notifications', async () => {
+    const track = vi.fn();
+    const { local, remote } = connect({ track });
+    local.use({
+      call: async (call, next) => {
+        expect(call.kind).toBe('notify');
+        call.args = ['rewritten'];
+        return next();
+      },
+    });
+
+    local.notify('track', 'click');
+
+    await vi.waitFor(() => expect(track).toHaveBeenCalledWith('rewritten'));
+    local.destroy();
+    remote.destroy();
+  });
+
+  it('should wrap handlers and reject calls when handler middleware throws', async () => {
+    const { local, remote } = connect();
+    const seen: string[] = [];
+    remote.use({
+      handle: async (call, next) => {
+        seen.push(`${call.kind}:${call.method}`);
+        if (call.args[0] === 'admin') throw new RpcError('Not allowed', 'FORBIDDEN');
+        return next();
+      },
+    });
+
+    await expect(local.call.getUser('1')).resolves.toEqual({ name: 'user-1' });
+    await expect(local.call.getUser('admin')).rejects.toMatchObject({
+      message: 'Not allowed',
+      code: 'FORBIDDEN',
+    });
+    expect(seen).toEqual(['request:getUser', 'request:getUser']);
+    local.destroy();
+    remote.destroy();
+  });
+
+  it('should stop running removed middleware', async () => {
+    const { local, remote } = connect();
+    const middleware = vi.fn((_call: unknown, next: () => Promise<unknown>) => next());
+    const remove = local.use({ call: middleware });
+
+    await local.call.getUser('1');
+    remove();
+    await local.call.getUser('2');
+
+    expect(middleware).toHaveBeenCalledTimes(1);
+    local.destroy();
+    remote.destroy();
+  });
+});
+
+describe('Call Metadata', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+  let sentOfType: WindowMessages['sentOfType'];
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    ({ dispatch, sentOfType } = mockWindowMessages(mockIframe.contentWindow, { origin: 'https://widget.example.com' }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should send meta with requests and notifications', () => {
+    type RemoteMethods = {
+      getUser: (id: string) => Promise<{ name: string }>;
+      track: (event: string) => void;
+    };
+    const bridge = createParentBridge<Record<string, never>, RemoteMethods>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {}
+    );
+
+    const withMeta = bridge.withOptions({ meta: { token: 'secret', locale: 'fr' } });
+    withMeta.call.getUser('1');
+    withMeta.notify('track', 'click');
+    bridge.call.getUser('2');
+
+    expect(sentOfType(MESSAGE_TYPE.REQUEST)).toEqual([
+      expect.objectContaining({ args: ['1'], meta: { token: 'secret', locale: 'fr' } }),
+      expect.not.objectContaining({ meta: expect.anything() }),
+    ]);
+    expect(sentOfType(MESSAGE_TYPE.FIRE_AND_FORGET)).toEqual([
+      expect.objectContaining({ meta: { token: 'secret', locale: 'fr' } }),
+    ]);
+  });
+
+  it('should describe the call in the handler context', async () => {
+    const getUser = vi.fn((_ctx: HandlerContext, _id: string) => ({ name: 'John' }));
+    const track = vi.fn((_ctx: HandlerContext, _event: string) => undefined);
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, {
+      getUser: withContext(getUser),
+      track: withContext(track),
+    });
+
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'getUser', args: ['1'], meta: { traceId: 't-1' } });
+    dispatch({ type: MESSAGE_TYPE.FIRE_AND_FORGET, method: 'track', args: ['click'] });
+    await flush();
+
+    expect(getUser).toHaveBeenCalledWith({
+      signal: expect.any(AbortSignal),
+      id: 'req-1',
+      meta: { traceId: 't-1' },
+      origin: 'https://widget.example.com',
+      source: mockIframe.contentWindow,
+    }, '1');
+    expect(track).toHaveBeenCalledWith(expect.objectContaining({
+      id: undefined,
+      meta: {},
+      origin: 'https://widget.example.com',
+    }), 'click');
+  });
+
+  it('should not let extra caller arguments stand in for the handler context', async () => {
+    const whoAmI = vi.fn((ctx: HandlerContext, name?: unknown) => ({ name, ctx }));
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, { whoAmI: withContext(whoAmI) });
+
+    const forged = { meta: { user: 'admin' }, origin: 'https://admin.example.com' };
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'whoAmI', args: ['x', forged] });
+    await flush();
+
+    expect(whoAmI).toHaveBeenCalledWith(expect.objectContaining({
+      meta: {},
+      origin: 'https://widget.example.com',
+    }), 'x', forged);
+  });
+
+  it('should let caller middleware add meta', async () => {
+    const [localTransport, remoteTransport] = createInMemoryTransportPair();
+    const local = createBridge<Record<string, never>, { whoAmI: () => Promise<unknown> }>(localTransport, {});
+    const remote = createBridge(remoteTransport, {
+      whoAmI: withContext(async (ctx) => ctx.meta),
+    });
+    local.use({
+      call: (call, next) => {
+        call.meta.traceId = 'trace-1';
+        return next();
+      },
+    });
+
+    await expect(local.withOptions({ meta: { user: 'ada' } }).call.whoAmI()).resolves.toEqual({
+      user: 'ada',
+      traceId: 'trace-1',
+    });
+    local.destroy();
+    remote.destroy();
+  });
+});
+
+describe('Origin Allowlist and Permissions', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+  let sentOfType: WindowMessages['sentOfType'];
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    ({ dispatch, sentOfType } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should accept origins from a list, wildcards and predicates', async () => {
+    const handlers = { ping: vi.fn() };
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers, {
+      allowedOrigins: [
+        'https://app.example.com',
+        'https://*.tenants.example.com',
+        (origin) => origin.endsWith('.trusted.dev'),
+      ],
+    });
+
+    const origins = [
+      'https://app.example.com',
+      'https://acme.tenants.example.com',
+      'https://preview.trusted.dev',
+      'https://tenants.example.com',
+      'https://acme.tenants.example.com.evil.com',
+      'https://evil.com',
+    ];
+    origins.forEach((origin, i) => {
+      dispatch({ type: MESSAGE_TYPE.FIRE_AND_FORGET, method: 'ping', args: [i] }, { origin });
+    });
+    await flush();
+
+    expect(handlers.ping.mock.calls.map(([i]) => i)).toEqual([0, 1, 2]);
+  });
+
+  it('should keep posting to targetOrigin when allowedOrigins is set', () => {
+    const bridge = createParentBridge(mockIframe as unknown as HTMLIFrameElement, {}, {
+      targetOrigin: 'https://widget.example.com',
+      allowedOrigins: 'https://*.example.com',
+    });
+
+    bridge.invoke('getStatus' as never);
+
+    expect(mockIframe.contentWindow.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ type: MESSAGE_TYPE.REQUEST }),
+      'https://widget.example.com'
+    );
+  });
+
+  it('should reject calls to restricted methods from other origins', async () => {
+    const handlers = {
+      deleteAccount: vi.fn(() => 'deleted'),
+      getProfile: vi.fn(() => 'profile'),
+    };
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers, {
+      permissions: { deleteAccount: ['https://admin.example.com'] },
+    });
+
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'deleteAccount', args: [] }, { origin: 'https://app.example.com' });
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-2', method: 'getProfile', args: [] }, { origin: 'https://app.example.com' });
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-3', method: 'deleteAccount', args: [] }, { origin: 'https://admin.example.com' });
+    dispatch({ type: MESSAGE_TYPE.FIRE_AND_FORGET, method: 'deleteAccount', args: [] }, { origin: 'https://app.example.com' });
+    await flush();
+
+    expect(handlers.deleteAccount).toHaveBeenCalledTimes(1);
+    expect(sentOfType(MESSAGE_TYPE.ERROR)).toEqual([
+      expect.objectContaining({
+        id: 'req-1',
+        error: expect.objectContaining({
+          message: 'Origin "https://app.example.com" is not allowed to call "deleteAccount"',
+          code: 'FORBIDDEN',
+        }),
+      }),
+    ]);
+    expect(sentOfType(MESSAGE_TYPE.RESPONSE)).toEqual([
+      expect.objectContaining({ id: 'req-2', result: 'profile' }),
+      expect.objectContaining({ id: 'req-3', result: 'deleted' }),
+    ]);
+  });
+
+  it('should forbid restricted methods over transports without origins', async () => {
+    const [localTransport, remoteTransport] = createInMemoryTransportPair();
+    const local = createBridge<Record<string, never>, { wipe: () => Promise<void> }>(localTransport, {});
+    const remote = createBridge(remoteTransport, { wipe: vi.fn() }, {
+      permissions: { wipe: '*' },
+    });
+
+    await expect(local.call.wipe()).rejects.toMatchObject({
+      message: 'Calls to "wipe" require a known origin',
+      code: 'FORBIDDEN',
+    });
+    local.destroy();
+    remote.destroy();
+  });
+
+  it('should expose the rejected origin on RpcForbiddenError', () => {
+    const error = new RpcForbiddenError('deleteAccount', 'https://evil.com');
+    expect(error).toBeInstanceOf(RpcError);
+    expect(error.name).toBe('RpcForbiddenError');
+    expect(error.origin).toBe('https://evil.com');
+  });
+});
+
+describe('Parent Origin Pinning', () => {
+  let originalParent: typeof window.parent;
+  let mockParent: ReturnType<typeof createMockWindow>;
+  let dispatch: WindowMessages['dispatch'];
+
+  const posted = (type: string) =>
+    mockParent.postMessage.mock.calls.filter(([msg]) => msg.type === type);
+
+  beforeEach(() => {
+    originalParent = window.parent;
+    mockParent = createMockWindow();
+    Object.defineProperty(window, 'parent', { value: mockParent, writable: true, configurable: true });
+    ({ dispatch } = mockWindowMessages(mockParent));
+  });
+
+  afterEach(() => {
+    Object.defineProperty(window, 'parent', { value: originalParent, writable: true, configurable: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should pin the origin of the parent handshake', async () => {
+    const handlers = { getStatus: vi.fn(() => 'ready') };
+    const bridge = createIframeBridge(handlers, { handshake: true, pinParentOrigin: true });
+
+    expect(posted(MESSAGE_TYPE.SYN)).toEqual([[expect.anything(), '*']]);
+
+    // Nothing but the parent's handshake is accepted before pinning
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-0', method: 'getStatus', args: [] }, { origin: 'https://app.example.com' });
+    dispatch({ type: MESSAGE_TYPE.SYN, session: 'other' }, { origin: 'https://evil.com', source: createMockWindow() });
+    expect(bridge.isConnected()).toBe(false);
+
+    dispatch({ type: MESSAGE_TYPE.SYN, session: 'parent' }, { origin: 'https://app.example.com' });
+    expect(bridge.isConnected()).toBe(true);
+    expect(posted(MESSAGE_TYPE.ACK)).toEqual([[expect.anything(), 'https://app.example.com']]);
+
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'getStatus', args: [] }, { origin: 'https://evil.com' });
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-2', method: 'getStatus', args: [] }, { origin: 'https://app.example.com' });
+    await flush();
+
+    expect(handlers.getStatus).toHaveBeenCalledTimes(1);
+    expect(posted(MESSAGE_TYPE.RESPONSE)).toEqual([
+      [expect.objectContaining({ id: 'req-2' }), 'https://app.example.com'],
+    ]);
+  });
+
+  it('should only pin allowed parent origins', () => {
+    const bridge = createIframeBridge({}, {
+      handshake: true,
+      pinParentOrigin: true,
+      allowedOrigins: 'https://*.example.com',
+    });
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'parent' }, { origin: 'https://evil.com' });
+    expect(bridge.isConnected()).toBe(false);
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'parent' }, { origin: 'https://app.example.com' });
+    expect(bridge.isConnected()).toBe(true);
+  });
+
+  it('should check the parent origin against the referrer', () => {
+    vi.spyOn(document, 'referrer', 'get').mockReturnValue('https://app.example.com/dashboard?tab=1');
+    const bridge = createIframeBridge({}, {
+      handshake: true,
+      pinParentOrigin: { checkAncestor: true },
+    });
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'parent' }, { origin: 'https://other.example.com' });
+    expect(bridge.isConnected()).toBe(false);
+
+    dispatch({ type: MESSAGE_TYPE.ACK, session: 'parent' }, { origin: 'https://app.example.com' });
+    expect(bridge.isConnected()).toBe(true);
+  });
+
+  it('should require the handshake', () => {
+    expect(() => createIframeBridge({}, { pinParentOrigin: true })).toThrow(
+      'pinParentOrigin requires the handshake option'
+    );
+  });
+});
+
+describe('Source Verification', () => {
+  let mockIframe: ReturnType<typeof createMockIframe>;
+  let dispatch: WindowMessages['dispatch'];
+  let sentOfType: WindowMessages['sentOfType'];
+
+  beforeEach(() => {
+    mockIframe = createMockIframe();
+    ({ dispatch, sentOfType } = mockWindowMessages(mockIframe.contentWindow));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should ignore calls and answers from other windows', async () => {
+    const handlers = { getStatus: vi.fn(() => 'ready') };
+    const bridge = createParentBridge<typeof handlers, { getUser: () => Promise<string> }>(
+      mockIframe as unknown as HTMLIFrameElement,
+      handlers
+    );
+    const otherIframe = createMockWindow();
+
+    const user = bridge.call.getUser();
+    const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+    dispatch({ type: MESSAGE_TYPE.RESPONSE, id: request.id, result: 'spoofed' }, { source: otherIframe });
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'getStatus', args: [] }, { source: otherIframe });
+    dispatch({ type: MESSAGE_TYPE.RESPONSE, id: request.id, result: 'real' });
+    await flush();
+
+    await expect(user).resolves.toBe('real');
+    expect(handlers.getStatus).not.toHaveBeenCalled();
+  });
+
+  it('should accept other windows when verifySource is disabled', async () => {
+    const handlers = { getStatus: vi.fn(() => 'ready') };
+    createParentBridge(mockIframe as unknown as HTMLIFrameElement, handlers, { verifySource: false });
+
+    dispatch({ type: MESSAGE_TYPE.REQUEST, id: 'req-1', method: 'getStatus', args: [] }, { source: createMockWindow() });
+    await flush();
+
+    expect(handlers.getStatus).toHaveBeenCalled();
+  });
+
+  it('should ignore answers from a different window than the request was sent to', async () => {
+    const bridge = createParentBridge<Record<string, never>, { getUser: () => Promise<string> }>(
+      mockIframe as unknown as HTMLIFrameElement,
+      {},
+      { timeout: 50 }
+    );
+
+    const user = bridge.call.getUser();
+    const [request] = sentOfType(MESSAGE_TYPE.REQUEST);
+
+    // The iframe is replaced by a new document before answering
+    const newWindow = createMockWindow();
+    mockIframe.contentWindow = newWindow;
+    dispatch({ type: MESSAGE_TYPE.RESPONSE, id: request.id, result: 'from new window' }, { source: newWindow });
+
+    await expect(user).rejects.toBeInstanceOf(RpcTimeoutError);
+  });
+});
+
+describe('Message Signing', () => {
+  const auth = { secret: 'shared-secret' };
+  const wait = () => new Promise((r) => setTimeout(r, 20));
+
+  // Transport that captures sent messages instead of delivering them
+  const createCapturingTransport = () => {
+    const sent: any[] = [];
+    const transport: Transport = { send: (message) => sent.push(message), subscribe: () => () => { } };
+    return { sent, transport };
+  };
+
+  it('should sign messages and answer calls between bridges sharing a secret', async () => {
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    const sent: any[] = [];
+    const recording: Transport = {
+      ...parentTransport,
+      send: (message, transfer) => {
+        sent.push(message);
+        parentTransport.send(message, transfer);
+      },
+    };
+    createBridge(iframeTransport, { add: (a: number, b: number) => a + b }, { auth });
+    const parent = createBridge<Record<string, never>, { add: (a: number, b: number) => Promise<number> }>(
+      recording,
+      {},
+      { auth }
+    );
+
+    await expect(parent.call.add(1, 2)).resolves.toBe(3);
+    expect(sent[0].auth).toEqual({
+      nonce: expect.any(String),
+      timestamp: expect.any(Number),
+      mac: expect.any(String),
+    });
+  });
+
+  it('should drop unsigned messages and messages signed with another secret', async () => {
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    const handlers = { track: vi.fn() };
+    createBridge(iframeTransport, handlers, { auth });
+
+    createBridge(parentTransport, {}).notify('track', 'unsigned');
+    createBridge(parentTransport, {}, { auth: { secret: 'other-secret' } }).notify('track', 'forged');
+    await wait();
+
+    expect(handlers.track).not.toHaveBeenCalled();
+  });
+
+  it('should drop replayed and altered copies of a signed message', async () => {
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    const handlers = { track: vi.fn() };
+    createBridge(iframeTransport, handlers, { auth });
+
+    const { sent, transport } = createCapturingTransport();
+    createBridge(transport, {}, { auth }).notify('track', 'original');
+    await wait();
+    const [signed] = sent;
+
+    parentTransport.send({ ...signed, args: ['altered'] });
+    parentTransport.send(signed);
+    parentTransport.send(signed);
+    await wait();
+
+    expect(handlers.track).toHaveBeenCalledTimes(1);
+    expect(handlers.track).toHaveBeenCalledWith('original');
+  });
+
+  it('should drop signed messages older than maxAge', async () => {
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    const handlers = { track: vi.fn() };
+    createBridge(iframeTransport, handlers, { auth: { ...auth, maxAge: 1000 } });
+
+    const { sent, transport } = createCapturingTransport();
+    const now = Date.now();
+    const dateNow = vi.spyOn(Date, 'now').mockReturnValue(now - 5000);
+    createBridge(transport, {}, { auth }).notify('track', 'stale');
+    await wait();
+    dateNow.mockRestore();
+
+    parentTransport.send(sent[0]);
+    await wait();
+
+    expect(handlers.track).not.toHaveBeenCalled();
+  });
+
+  it('should drop signed messages whose binary data or Map entries were altered', async () => {
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    const handlers = { track: vi.fn() };
+    createBridge(iframeTransport, handlers, { auth });
+
+    const { sent, transport } = createCapturingTransport();
+    createBridge(transport, {}, { auth }).notify('track', new Uint8Array([1, 2, 3]), new Map([['plan', 'free']]));
+    await wait();
+    const [signed] = sent;
+
+    parentTransport.send({ ...signed, args: [new Uint8Array([9, 9, 9]), signed.args[1]] });
+    parentTransport.send({ ...signed, args: [signed.args[0], new Map([['plan', 'pro']])] });
+    await wait();
+    expect(handlers.track).not.toHaveBeenCalled();
+
+    parentTransport.send(signed);
+    await wait();
+    expect(handlers.track).toHaveBeenCalledTimes(1);
+    const [bytes, settings] = handlers.track.mock.calls[0];
+    expect(Array.from(bytes)).toEqual([1, 2, 3]);
+    expect(settings.get('plan')).toBe('free');
+  });
+
+  it('should sign payloads with circular references', async () => {
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    const handlers = { track: vi.fn() };
+    createBridge(iframeTransport, handlers, { auth });
+
+    const node: { name: string; self?: unknown } = { name: 'root' };
+    node.self = node;
+    createBridge(parentTransport, {}, { auth }).notify('track', node);
+    await wait();
+
+    const [received] = handlers.track.mock.calls[0];
+    expect(received.name).toBe('root');
+    expect(received.self).toBe(received);
+  });
+
+  it('should reject calls whose arguments or result cannot be sent instead of timing out', async () => {
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    const handlers = { getFlag: () => ({ flag: Symbol('flag') }), echo: (value: unknown) => value };
+    createBridge(iframeTransport, handlers, { auth });
+    const parent = createBridge<Record<string, never>, {
+      getFlag: () => Promise<unknown>;
+      echo: (value: unknown) => Promise<unknown>;
+    }>(parentTransport, {}, { auth, timeout: 60000 });
+
+    await expect(parent.call.getFlag()).rejects.toThrow('Cannot sign a message containing a symbol');
+    await expect(parent.call.echo(Symbol('arg'))).rejects.toThrow('Cannot sign a message containing a symbol');
+  });
+});
+
+describe('Error Serialization', () => {
+  class NotFoundError extends Error {
+    constructor(public readonly resource: string) {
+      super(`${resource} not found`);
+      this.name = 'NotFoundError';
+    }
+  }
+
+  type Remote = { getUser: (id: string) => Promise<string> };
+
+  const connect = (getUser: (id: string) => unknown, options: Parameters<typeof createBridge>[2] = {}) => {
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    createBridge(iframeTransport, { getUser }, options);
+    return createBridge<Record<string, never>, Remote>(parentTransport, {}, options);
+  };
+
+  it('should revive registered error classes with their properties', async () => {
+    const bridge = connect(() => {
+      throw Object.assign(new NotFoundError('user'), { httpStatus: 404 });
+    }, { errors: { NotFoundError } });
+
+    const error = await bridge.call.getUser('1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({ name: 'NotFoundError', message: 'user not found', resource: 'user', httpStatus: 404 });
+  });
+
+  it('should keep causes and aggregate members of other errors, but not their properties', async () => {
+    const bridge = connect(() => {
+      const cause = Object.assign(new Error('connection refused'), { code: 'ECONNREFUSED' });
+      const error = new AggregateError([new Error('first'), 'second'], 'lookup failed');
+      throw Object.assign(error, { cause, config: { headers: { authorization: 'Bearer secret' } } });
+    });
+
+    const error = await bridge.call.getUser('1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(RpcError);
+    expect(error.message).toBe('lookup failed');
+    expect(error.config).toBeUndefined();
+    expect(error.cause).toBeInstanceOf(RpcError);
+    expect(error.cause).toMatchObject({ message: 'connection refused', code: 'ECONNREFUSED' });
+    expect(error.errors).toEqual([expect.any(RpcError), 'second']);
+    expect(error.errors[0].message).toBe('first');
+  });
+
+  it('should send values structured cloning cannot copy as strings', async () => {
+    const bridge = connect(() => {
+      const error = Object.assign(new NotFoundError('user'), { details: { retry: () => { } } });
+      throw Object.assign(error, { cause: Symbol('lookup') });
+    }, { errors: { NotFoundError }, timeout: 100 });
+
+    const error = await bridge.call.getUser('1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.details).toBe('[object Object]');
+    expect(error.cause).toBe('Symbol(lookup)');
+  });
+
+  it('should send the message and code when the encoded error cannot be sent', async () => {
+    const bridge = connect(() => {
+      throw Object.assign(new Error('boom'), { code: 'E_BOOM' });
+    }, { errorCodec: { encode: (error) => ({ message: error.message, data: { fn: () => { } } }), decode: createErrorCodec().decode }, timeout: 100 });
+
+    await expect(bridge.call.getUser('1')).rejects.toMatchObject({ message: 'boom', code: 'E_BOOM' });
+  });
+
+  it('should register the errors declared in contracts', async () => {
+    const UserContract = defineContract({
+      getUser: method.request<Remote['getUser']>().throws({ NotFoundError }),
+    });
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    createBridge(iframeTransport, {
+      getUser: () => {
+        throw new NotFoundError('user');
+      },
+    }, { contracts: { local: UserContract } });
+    const bridge = createBridge<Record<string, never>, Remote>(parentTransport, {}, {
+      contracts: { remote: UserContract },
+    });
+
+    await expect(bridge.call.getUser('1')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should use a custom error codec', async () => {
+    const errorCodec = createErrorCodec();
+    const decode = vi.fn((error) => new TypeError(error.message));
+    const bridge = connect(() => {
+      throw new Error('boom');
+    }, { errorCodec: { encode: errorCodec.encode, decode } });
+
+    await expect(bridge.call.getUser('1')).rejects.toBeInstanceOf(TypeError);
+    expect(decode).toHaveBeenCalledWith({ message: 'boom' });
+  });
+});
+
+describe('Fallible Methods', () => {
+  type UserFailure = Failure<'NOT_FOUND', { id: string }> | Failure<'FORBIDDEN'>;
+  type Remote = { getUser: (id: string) => Fallible<string, UserFailure> };
+
+  const connect = (getUser: Remote['getUser']) => {
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    createBridge<Remote, Record<string, never>>(iframeTransport, { getUser });
+    return createBridge<Record<string, never>, Remote>(parentTransport, {}, { timeout: 100 });
+  };
+
+  it('should settle successful calls with their value', async () => {
+    const bridge = connect(async (id) => `user ${id}`);
+
+    await expect(settle(bridge.call.getUser('1'))).resolves.toEqual({ ok: true, value: 'user 1' });
+  });
+
+  it('should settle failures thrown with rpcFail() with their code and payload', async () => {
+    const bridge = connect(async (id) => {
+      throw rpcFail('NOT_FOUND', { id });
+    });
+
+    const result = await settle(bridge.call.getUser('42'));
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toBeInstanceOf(RpcFailure);
+    expect(result.error).toMatchObject({ code: 'NOT_FOUND', payload: { id: '42' }, message: 'NOT_FOUND' });
+  });
+
+  it('should reject on errors that are not failures', async () => {
+    const bridge = connect(async () => {
+      throw new Error('database unavailable');
+    });
+
+    await expect(settle(bridge.call.getUser('1'))).rejects.toThrow('database unavailable');
+    await expect(bridge.call.getUser('1')).rejects.toBeInstanceOf(RpcError);
+  });
+});
+
+describe('Custom Serialization', () => {
+  class Money {
+    constructor(public amount: number, public currency: string) { }
+
+    format() {
+      return `${this.amount} ${this.currency}`;
+    }
+  }
+
+  const serializer = { types: { Money: classType(Money) } };
+
+  // In-memory transports that send messages as JSON text, like a socket would
+  const createJsonTransportPair = (): [Transport, Transport] => {
+    const [first, second] = createInMemoryTransportPair();
+    const asJson = (transport: Transport): Transport => ({
+      ...transport,
+      send: (message) => transport.send(JSON.stringify(message)),
+      subscribe: (listener) => transport.subscribe((data) => listener(JSON.parse(data as string))),
+    });
+    return [asJson(first), asJson(second)];
+  };
+
+  it('should revive class instances in arguments, results and failure payloads', async () => {
+    type Remote = {
+      convert: (money: Money) => Promise<Money>;
+      refund: (money: Money) => Fallible<void, Failure<'TOO_LARGE', Money>>;
+    };
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    createBridge<Remote, Record<string, never>>(iframeTransport, {
+      convert: async (money) => new Money(money.amount * 2, `${money.format()} in EUR`),
+      refund: async (money) => {
+        throw rpcFail('TOO_LARGE', money);
+      },
+    }, { serializer });
+    const bridge = createBridge<Record<string, never>, Remote>(parentTransport, {}, { serializer });
+
+    const converted = await bridge.call.convert(new Money(5, 'USD'));
+    const refund = await settle(bridge.call.refund(new Money(100, 'USD')));
+
+    expect(converted).toBeInstanceOf(Money);
+    expect(converted.format()).toBe('10 5 USD in EUR');
+    expect(!refund.ok && refund.error.payload).toBeInstanceOf(Money);
+  });
+
+  it('should send BigInts, dates, maps and sets as JSON in JSON mode', async () => {
+    const [parentTransport, iframeTransport] = createJsonTransportPair();
+    const echo = vi.fn((value: unknown) => value);
+    createBridge(iframeTransport, { echo }, { serializer: { json: true } });
+    const bridge = createBridge<Record<string, never>, { echo: (value: unknown) => Promise<any> }>(
+      parentTransport,
+      {},
+      { serializer: { json: true } }
+    );
+    const value = {
+      id: 2n ** 64n,
+      at: new Date('2024-05-01T09:00:00Z'),
+      tags: new Set(['a', 'b']),
+      totals: new Map([['usd', 1n]]),
+      local: new ZonedDate(new Date('2024-05-01T09:00:00Z'), 420, 'Asia/Bangkok'),
+    };
+
+    const result = await bridge.call.echo(value);
+
+    expect(echo.mock.calls[0][0]).toEqual(value);
+    expect(result).toEqual(value);
+    expect(result.at).toBeInstanceOf(Date);
+    expect(result.local).toBeInstanceOf(ZonedDate);
+    expect(result.local.toString()).toBe('2024-05-01T16:00:00.000+07:00[Asia/Bangkok]');
+  });
+
+  it('should only send the types the remote side announced during the handshake', async () => {
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    const sent: any[] = [];
+    const recording: Transport = {
+      ...parentTransport,
+      send: (message, transfer) => {
+        sent.push(message);
+        parentTransport.send(message, transfer);
+      },
+    };
+    const echo = vi.fn((value: unknown) => value);
+    createBridge(iframeTransport, { echo }, { handshake: true });
+    const bridge = createBridge<Record<string, never>, { echo: (value: unknown) => Promise<unknown> }>(
+      recording,
+      {},
+      { handshake: true, serializer }
+    );
+
+    await bridge.call.echo(new Money(1, 'USD'));
+
+    expect(sent.find((message) => message.type === MESSAGE_TYPE.SYN).types).toEqual(['Money']);
+    expect(echo.mock.calls[0][0]).toEqual({ amount: 1, currency: 'USD' });
+    expect(echo.mock.calls[0][0]).not.toBeInstanceOf(Money);
+  });
+
+  it('should answer with a validation error when a payload cannot be decoded', async () => {
+    type Remote = { echo: (value: unknown) => Promise<unknown> };
+    const malformed = { __iframeRpcType: 'bigint', value: 'nope' };
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    const echo = vi.fn((value: unknown) => value);
+    createBridge(iframeTransport, { echo }, { serializer: { json: true } });
+    const bridge = createBridge<Record<string, never>, Remote>(parentTransport, {}, { timeout: 100 });
+
+    await expect(bridge.call.echo(malformed)).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(echo).not.toHaveBeenCalled();
+  });
+
+  it('should reject calls whose result cannot be decoded', async () => {
+    type Remote = { getId: () => Promise<bigint> };
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    createBridge(iframeTransport, { getId: () => ({ __iframeRpcType: 'bigint', value: 'nope' }) });
+    const bridge = createBridge<Record<string, never>, Remote>(parentTransport, {}, {
+      timeout: 100,
+      serializer: { json: true },
+    });
+
+    await expect(bridge.call.getId()).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+
+  it('should expose the built-in handlers for use without JSON mode', () => {
+    expect(builtinTypes.date.encode(new Date(Number.NaN))).toBe('Invalid Date');
+    expect(builtinTypes.date.decode(builtinTypes.date.encode(new Date(0))).getTime()).toBe(0);
+    expect(ZonedDate.from('1970-01-01T00:00:00.000-02:30')).toEqual(new ZonedDate(new Date(9000000), -150));
+  });
+});
+
+describe('Payload Compression', () => {
+  type Remote = { save: (doc: { text: string }) => Promise<{ text: string }> };
+
+  const doc = { text: 'lorem ipsum dolor sit amet '.repeat(1000) };
+
+  // Bridges over an in-memory pair; `tamper` may replace the messages the parent sends
+  const connect = (
+    parentOptions: Parameters<typeof createBridge>[2],
+    iframeOptions = parentOptions,
+    tamper: (message: any) => any = (message) => message
+  ) => {
+    const [parentTransport, iframeTransport] = createInMemoryTransportPair();
+    const sent: any[] = [];
+    const recording: Transport = {
+      ...parentTransport,
+      send: (message, transfer) => {
+        // Copied, as compressed payloads are transferred
+        sent.push(structuredClone(message));
+        parentTransport.send(tamper(message), transfer);
+      },
+    };
+    const save = vi.fn(async (value: { text: string }) => value);
+    createBridge(iframeTransport, { save }, iframeOptions);
+    const bridge = createBridge<Record<string, never>, Remote>(recording, {}, parentOptions);
+    return { bridge, sent, save };
+  };
+
+  const sentRequests = (sent: any[]) => sent.filter((message) => message.type === MESSAGE_TYPE.REQUEST);
+
+  it('should compress payloads above the threshold and decompress them transparently', async () => {
+    const { bridge, sent, save } = connect({ handshake: true, compression: { threshold: 1024 } });
+
+    await expect(bridge.call.save(doc)).resolves.toEqual(doc);
+
+    expect(save).toHaveBeenCalledWith(doc);
+    const [{ args }] = sentRequests(sent);
+    expect(args.__iframeRpcCompressed).toBe('gzip');
+    expect(args.data.byteLength).toBeGreaterThan(0);
+    expect(args.data.byteLength).toBeLessThan(1024);
+  });
+
+  it('should send payloads below the threshold as they are', async () => {
+    const { bridge, sent } = connect({ handshake: true, compression: { threshold: 1024, algorithm: 'deflate' } });
+
+    await bridge.call.save({ text: 'short' });
+
+    expect(sentRequests(sent)[0].args).toEqual([{ text: 'short' }]);
+  });
+
+  it('should not compress for a remote bridge that did not announce it decompresses', async () => {
+    const { bridge, sent, save } = connect(
+      { handshake: true, compression: { threshold: 1024 } },
+      { handshake: true }
+    );
+
+    await expect(bridge.call.save(doc)).resolves.toEqual(doc);
+
+    expect(sent.find((message) => message.type === MESSAGE_TYPE.SYN).compression).toEqual(['gzip', 'deflate']);
+    expect(sentRequests(sent)[0].args).toEqual([doc]);
+    expect(save).toHaveBeenCalledWith(doc);
+  });
+
+  it('should require the handshake', () => {
+    expect(() => connect({ compression: { threshold: 1024 } }, {})).toThrow(
+      'The compression option requires the handshake option'
+    );
+  });
+
+  it('should reject payloads decompressing to more than maxSize', async () => {
+    const { bridge, save } = connect(
+      { handshake: true, timeout: 1000, compression: { threshold: 1024 } },
+      { handshake: true, compression: { maxSize: 4096 } }
+    );
+
+    await expect(bridge.call.save(doc)).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('should drop signed payloads decompressing to more than maxSize', async () => {
+    const auth = { secret: 'shared-secret' };
+    const { bridge, save } = connect(
+      { handshake: true, timeout: 200, auth, compression: { threshold: 1024 } },
+      { handshake: true, auth, compression: { maxSize: 4096 } }
+    );
+
+    await expect(bridge.call.save(doc)).rejects.toThrow(RpcTimeoutError);
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('should reject a call whose result cannot be sent instead of timing out', async () => {
+    const options = { handshake: true, timeout: 60000, compression: { threshold: 1024 } };
+    const { bridge, save } = connect(options);
+    save.mockResolvedValue({ text: 'saved', onChange: () => { } } as any);
+
+    await expect(bridge.call.save(doc)).rejects.toThrow('could not be cloned');
+  });
+
+  it('should sign the payload itself when messages are also signed', async () => {
+    const options = { handshake: true, timeout: 200, auth: { secret: 'shared-secret' }, compression: { threshold: 1024 } };
+    let firstArgs: unknown;
+    const { bridge, save } = connect(options, options, (message) => {
+      if (message.type !== MESSAGE_TYPE.REQUEST) return message;
+      // Replay the compressed payload of the first call in the second one
+      firstArgs ??= structuredClone(message.args);
+      return { ...message, args: structuredClone(firstArgs) };
+    });
+
+    await expect(bridge.call.save(doc)).resolves.toEqual(doc);
+    await expect(bridge.call.save({ text: doc.text.toUpperCase() })).rejects.toThrow(RpcTimeoutError);
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+});
@@ -32,7 +32,8 @@ import type { MethodContract } from './types';
 import type { BridgeOptions } from './config';
 import { mergeOptions } from './config';
 import { warnIfInsecureOrigin } from './utils';
-import { createBridge, type Bridge } from './bridge';
+import { createBridgeCore, type Bridge } from './bridge';
+import { createParentOriginPinningTransport, createWindowTransport, type Transport } from './transport';
 
 // ============================================================================
 // Public API
@@ -66,18 +67,31 @@ export function createParentBridge<
     handlers: TLocal,
     options: BridgeOptions = {}
 ): Bridge<TLocal, TRemote> {
-    if (!iframe.contentWindow) {
+    const mergedOptions = mergeOptions(options);
+
+    // With a handshake, calls are queued until the iframe's bridge answers
+    if (!iframe.contentWindow && !mergedOptions.handshake) {
         throw new Error('Iframe contentWindow is not available. Make sure the iframe is loaded.');
     }
 
-    const mergedOptions = mergeOptions(options);
     warnIfInsecureOrigin(mergedOptions);
 
-    return createBridge<TLocal, TRemote>(
-        iframe.contentWindow,
+    const getTarget = () => iframe.contentWindow;
+    return createBridgeCore<TLocal, TRemote>(
+        createWindowTransport(getTarget, {
+            targetOrigin: mergedOptions.targetOrigin,
+            allowedOrigins: mergedOptions.allowedOrigins,
+        }),
         handlers,
         mergedOptions,
-        'parent'
+        {
+            side: 'parent',
+            getTarget,
+            watchTargetLoad: (listener) => {
+                iframe.addEventListener('load', listener);
+                return () => iframe.removeEventListener('load', listener);
+            },
+        }
     );
 }
 
@@ -113,41 +127,214 @@ export function createIframeBridge<
     const mergedOptions = mergeOptions(options);
     warnIfInsecureOrigin(mergedOptions);
 
-    return createBridge<TLocal, TRemote>(
-        window.parent,
+    const { pinParentOrigin } = mergedOptions;
+    if (pinParentOrigin && !mergedOptions.handshake) {
+        throw new Error('pinParentOrigin requires the handshake option');
+    }
+
+    const getTarget = () => window.parent;
+    const transport = pinParentOrigin
+        ? createParentOriginPinningTransport({
+            channel: mergedOptions.channel,
+            // Without an explicit allowlist, any parent origin may be pinned
+            allowedOrigins: options.allowedOrigins ?? '*',
+            checkAncestor: pinParentOrigin !== true && pinParentOrigin.checkAncestor === true,
+        })
+        : createWindowTransport(getTarget, {
+            targetOrigin: mergedOptions.targetOrigin,
+            allowedOrigins: mergedOptions.allowedOrigins,
+        });
+    return createBridgeCore<TLocal, TRemote>(
+        transport,
         handlers,
         mergedOptions,
-        'iframe'
+        { side: 'iframe', getTarget }
     );
 }
 
+/**
+ * Create a bridge over any transport: a worker, a MessagePort, a
+ * BroadcastChannel, or your own implementation of `Transport`
+ *
+ * @param transport - Channel to the remote bridge, see the `create*Transport` helpers
+ * @param handlers - Object containing methods that the remote side can call
+ * @param options - Bridge configuration options (`targetOrigin`, `allowedOrigins`
+ *   and `messageChannel` only apply to parent and iframe bridges)
+ * @returns Bridge instance with type-safe call proxy
+ *
+ * @example
+ * // Page
+ * const bridge = createBridge<PageMethods, WorkerMethods>(
+ *   createWorkerTransport(new Worker('worker.js')),
+ *   { log: (message) => console.log(message) }
+ * );
+ * const result = await bridge.call.compute(42);
+ *
+ * // worker.js
+ * const bridge = createBridge<WorkerMethods, PageMethods>(createWorkerTransport(self), {
+ *   compute: async (input) => input * 2,
+ * });
+ */
+export function createBridge<
+    TLocal extends MethodContract,
+    TRemote extends MethodContract
+>(
+    transport: Transport,
+    handlers: TLocal,
+    options: BridgeOptions = {}
+): Bridge<TLocal, TRemote> {
+    return createBridgeCore<TLocal, TRemote>(transport, handlers, mergeOptions(options));
+}
+
 // ============================================================================
 // Re-exports
 // ============================================================================
 
 // Error classes
-export { RpcError, RpcTimeoutError, RpcMethodNotFoundError } from './errors';
+export {
+    RpcError,
+    RpcTimeoutError,
+    RpcMethodNotFoundError,
+    RpcDisconnectedError,
+    RpcAbortedError,
+    RpcValidationError,
+    RpcContractMismatchError,
+    RpcProtocolError,
+    RpcForbiddenError,
+    RpcFailure,
+} from './errors';
+
+// Result-style methods
+export { rpcFail, settle } from './fallible';
+export type { Failure, AnyFailure, Fallible, FailureError, Settled } from './fallible';
+
+// Error serialization
+export { createErrorCodec } from './error-codec';
+export type { ErrorCodec, ErrorCodecOptions, ErrorClass, ErrorClasses } from './error-codec';
+
+// Custom serialization
+export { builtinTypes, classType, ZonedDate } from './serializer';
+export type { TypeHandler, SerializerOptions, TaggedValue } from './serializer';
+
+// Payload compression
+export type { CompressionOptions, CompressionAlgorithm, CompressedValue } from './compression';
+
+// Handler context
+export { withContext } from './context';
+
+// Transferable marker
+export { transfer } from './transfer';
+
+// Transports
+export {
+    createWindowTransport,
+    createMessagePortTransport,
+    createWorkerTransport,
+    createBroadcastChannelTransport,
+    createInMemoryTransportPair,
+} from './transport';
+export type {
+    Transport,
+    TransportListener,
+    WindowTransportOptions,
+    MessageEndpoint,
+} from './transport';
 
 // Configuration types
-export type { BridgeOptions, RetryOptions } from './config';
+export type {
+    BridgeOptions,
+    RetryOptions,
+    HeartbeatOptions,
+    MethodOptions,
+    CallOptions,
+    SchemaOptions,
+    ContractOptions,
+    PinParentOriginOptions,
+} from './config';
+
+// Contracts
+export { defineContract, method } from './contract';
+export type {
+    Contract,
+    ContractManifest,
+    InferContract,
+    MethodBuilder,
+    MethodDefinition,
+    MethodErrors,
+    MethodKind,
+    MethodSchemas,
+} from './contract';
+
+// Schema validation
+export type {
+    StandardSchemaV1,
+    SchemaIssue,
+    SchemaPathSegment,
+    SchemaResult,
+} from './schema';
+
+// Origin allowlists
+export type { OriginPattern, AllowedOrigins } from './origin';
+
+// Message signing
+export type { AuthOptions } from './auth';
+
+// Middleware
+export type {
+    Middleware,
+    CallMiddleware,
+    HandlerMiddleware,
+    OutgoingCall,
+    IncomingCall,
+    CallKind,
+    Next,
+} from './middleware';
 
 // Bridge interface
-export type { Bridge } from './bridge';
+export type {
+    Bridge,
+    BridgeCaller,
+    BridgeEvent,
+    BridgeEventListener,
+    BridgeHealth,
+    LivenessState,
+    RemoteDescription,
+} from './bridge';
 
 // Message types and constants
-export { MESSAGE_TYPE } from './messages';
+export { MESSAGE_TYPE, PROTOCOL_VERSION } from './messages';
 export type {
     RpcMessage,
     RequestMessage,
     ResponseMessage,
     ErrorMessage,
     FireAndForgetMessage,
+    SynMessage,
+    AckMessage,
+    FinMessage,
+    PingMessage,
+    PongMessage,
+    CancelMessage,
+    StreamStartMessage,
+    StreamChunkMessage,
+    StreamEndMessage,
+    StreamPullMessage,
+    CallbackMessage,
+    CallbackReleaseMessage,
+    PortMessage,
+    BatchMessage,
+    MessageSignature,
+    SerializedError,
+    SerializedCause,
 } from './messages';
 
 // Type utilities
 export type {
     MethodContract,
+    HandlerContext,
+    CallMeta,
     CallProxy,
+    CallResult,
     VoidMethods,
     ValueMethods,
     IsFunction,
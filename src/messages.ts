@@ -2,7 +2,9 @@
  * Message types for RPC communication
  */
 
-import type { MethodContract } from './types';
+import type { CallMeta, MethodContract } from './types';
+import type { ContractManifest } from './contract';
+import type { CompressionAlgorithm } from './compression';
 
 /** Message type constants */
 export const MESSAGE_TYPE = {
@@ -10,12 +12,57 @@ export const MESSAGE_TYPE = {
     RESPONSE: 'iframe-rpc:response',
     ERROR: 'iframe-rpc:error',
     FIRE_AND_FORGET: 'iframe-rpc:fire-and-forget',
+    SYN: 'iframe-rpc:syn',
+    ACK: 'iframe-rpc:ack',
+    FIN: 'iframe-rpc:fin',
+    PING: 'iframe-rpc:ping',
+    PONG: 'iframe-rpc:pong',
+    CANCEL: 'iframe-rpc:cancel',
+    STREAM_START: 'iframe-rpc:stream-start',
+    STREAM_CHUNK: 'iframe-rpc:stream-chunk',
+    STREAM_END: 'iframe-rpc:stream-end',
+    STREAM_PULL: 'iframe-rpc:stream-pull',
+    CALLBACK: 'iframe-rpc:callback',
+    CALLBACK_RELEASE: 'iframe-rpc:callback-release',
+    PORT: 'iframe-rpc:port',
+    BATCH: 'iframe-rpc:batch',
 } as const;
 
+/**
+ * Version of the wire protocol implemented by this library, sent as `v` in
+ * every message. Only breaking wire changes increase it; see
+ * "Protocol Compatibility" in the README for the policy.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/** Prefix shared by all message types, including ones added by newer versions */
+export const MESSAGE_TYPE_PREFIX = 'iframe-rpc:';
+
+/** Method names reserved for requests answered by the bridge itself */
+export const RESERVED_METHOD = {
+    DESCRIBE: 'iframe-rpc:describe',
+} as const;
+
+/** Signature added to every message by bridges with the `auth` option */
+export interface MessageSignature {
+    /** Random value, accepted once */
+    nonce: string;
+    /** When the message was signed, in ms since the epoch */
+    timestamp: number;
+    /** Base64 HMAC-SHA-256 of the message, nonce and timestamp */
+    mac: string;
+}
+
 /** Base interface for all RPC messages */
 interface BaseMessage {
     __iframeRpc: true;
+    /**
+     * Protocol version of the sender. Missing in messages from versions that
+     * predate the field, which speak protocol version 1.
+     */
+    v?: number;
     channel?: string;
+    auth?: MessageSignature;
 }
 
 /** Request message sent when calling a remote method */
@@ -24,6 +71,8 @@ export interface RequestMessage<T extends MethodContract = MethodContract> exten
     id: string;
     method: keyof T & string;
     args: unknown[];
+    /** Metadata from `CallOptions.meta`, omitted when empty */
+    meta?: CallMeta;
 }
 
 /** Response message returned after successful method execution */
@@ -33,15 +82,32 @@ export interface ResponseMessage extends BaseMessage {
     result: unknown;
 }
 
+/** Error as sent to the remote side, see `ErrorCodec` */
+export interface SerializedError {
+    message: string;
+    code?: string;
+    /** Only sent with `includeStackTraces` */
+    stack?: string;
+    /** Name the error class is registered under (see `BridgeOptions.errors`), to revive it */
+    type?: string;
+    /** `name` of an error of a registered class */
+    name?: string;
+    /** The error's `cause` */
+    cause?: SerializedCause;
+    /** Members of an `AggregateError` (or any error with an `errors` array) */
+    errors?: SerializedCause[];
+    /** Custom enumerable properties, e.g. `details` or `httpStatus` */
+    data?: Record<string, unknown>;
+}
+
+/** Cause or member of a serialized error: another error, or any other value */
+export type SerializedCause = { error: SerializedError } | { value: unknown };
+
 /** Error message returned when method execution fails */
 export interface ErrorMessage extends BaseMessage {
     type: typeof MESSAGE_TYPE.ERROR;
     id: string;
-    error: {
-        message: string;
-        code?: string;
-        stack?: string;
-    };
+    error: SerializedError;
 }
 
 /** Fire-and-forget message for one-way notifications */
@@ -49,6 +115,119 @@ export interface FireAndForgetMessage<T extends MethodContract = MethodContract>
     type: typeof MESSAGE_TYPE.FIRE_AND_FORGET;
     method: keyof T & string;
     args: unknown[];
+    /** Metadata from `CallOptions.meta`, omitted when empty */
+    meta?: CallMeta;
+}
+
+/** Handshake message announcing that a bridge is listening */
+export interface SynMessage extends BaseMessage {
+    type: typeof MESSAGE_TYPE.SYN;
+    /** Unique id of the sending bridge instance */
+    session: string;
+    /** Whether the sender can move traffic to a dedicated MessageChannel */
+    messageChannel?: boolean;
+    /** Methods the sender provides, when it was given a local contract */
+    manifest?: ContractManifest;
+    /** Version of the sender's contract, see `contracts.version` */
+    contractVersion?: string;
+    /** Tags of the custom types the sender decodes, see `serializer` */
+    types?: string[];
+    /** Algorithms the sender decompresses, see `compression` */
+    compression?: CompressionAlgorithm[];
+}
+
+/** Handshake message acknowledging a received SYN */
+export interface AckMessage extends BaseMessage {
+    type: typeof MESSAGE_TYPE.ACK;
+    /** Unique id of the sending bridge instance */
+    session: string;
+    /** Whether the sender can move traffic to a dedicated MessageChannel */
+    messageChannel?: boolean;
+    /** Methods the sender provides, when it was given a local contract */
+    manifest?: ContractManifest;
+    /** Version of the sender's contract, see `contracts.version` */
+    contractVersion?: string;
+    /** Tags of the custom types the sender decodes, see `serializer` */
+    types?: string[];
+    /** Algorithms the sender decompresses, see `compression` */
+    compression?: CompressionAlgorithm[];
+}
+
+/** Message announcing that a bridge is going away (destroyed or page unloading) */
+export interface FinMessage extends BaseMessage {
+    type: typeof MESSAGE_TYPE.FIN;
+}
+
+/** Heartbeat message probing the remote side */
+export interface PingMessage extends BaseMessage {
+    type: typeof MESSAGE_TYPE.PING;
+    id: string;
+}
+
+/** Heartbeat reply echoing the id of the received ping */
+export interface PongMessage extends BaseMessage {
+    type: typeof MESSAGE_TYPE.PONG;
+    id: string;
+}
+
+/** Cancel message asking the remote side to abort a pending request */
+export interface CancelMessage extends BaseMessage {
+    type: typeof MESSAGE_TYPE.CANCEL;
+    id: string;
+}
+
+/** Sent instead of a response when the handler returned an async iterable */
+export interface StreamStartMessage extends BaseMessage {
+    type: typeof MESSAGE_TYPE.STREAM_START;
+    id: string;
+}
+
+/** One value produced by a streaming handler */
+export interface StreamChunkMessage extends BaseMessage {
+    type: typeof MESSAGE_TYPE.STREAM_CHUNK;
+    id: string;
+    value: unknown;
+}
+
+/** Sent when a streaming handler's iterable completes */
+export interface StreamEndMessage extends BaseMessage {
+    type: typeof MESSAGE_TYPE.STREAM_END;
+    id: string;
+}
+
+/** Sent by the caller to allow the producer to send `count` more chunks */
+export interface StreamPullMessage extends BaseMessage {
+    type: typeof MESSAGE_TYPE.STREAM_PULL;
+    id: string;
+    count: number;
+}
+
+/** Invocation of a function that the remote side passed as an argument */
+export interface CallbackMessage extends BaseMessage {
+    type: typeof MESSAGE_TYPE.CALLBACK;
+    id: string;
+    callbackId: string;
+    args: unknown[];
+}
+
+/** Sent when a callback proxy was garbage collected and can no longer be invoked */
+export interface CallbackReleaseMessage extends BaseMessage {
+    type: typeof MESSAGE_TYPE.CALLBACK_RELEASE;
+    callbackId: string;
+}
+
+/** Hands the iframe the MessagePort that carries all traffic after the handshake */
+export interface PortMessage extends BaseMessage {
+    type: typeof MESSAGE_TYPE.PORT;
+    /** Unique id of the sending bridge instance */
+    session: string;
+    port: MessagePort;
+}
+
+/** Several messages sent together: batched calls, or the first replies to them */
+export interface BatchMessage extends BaseMessage {
+    type: typeof MESSAGE_TYPE.BATCH;
+    messages: RpcMessage[];
 }
 
 /** Union type of all RPC messages */
@@ -56,4 +235,18 @@ export type RpcMessage<T extends MethodContract = MethodContract> =
     | RequestMessage<T>
     | ResponseMessage
     | ErrorMessage
-    | FireAndForgetMessage<T>;
+    | FireAndForgetMessage<T>
+    | SynMessage
+    | AckMessage
+    | FinMessage
+    | PingMessage
+    | PongMessage
+    | CancelMessage
+    | StreamStartMessage
+    | StreamChunkMessage
+    | StreamEndMessage
+    | StreamPullMessage
+    | CallbackMessage
+    | CallbackReleaseMessage
+    | PortMessage
+    | BatchMessage;
@@ -0,0 +1,77 @@
+/**
+ * Middleware wrapping outgoing calls and incoming handler executions
+ */
+
+import type { CallOptions } from './config';
+import type { CallMeta, HandlerContext } from './types';
+
+/** Call made through `call`, `invoke` (`'request'`) or `notify` (`'notify'`) */
+export type CallKind = 'request' | 'notify';
+
+/** Outgoing call seen by caller middleware */
+export interface OutgoingCall {
+    readonly kind: CallKind;
+    /** Remote method name */
+    readonly method: string;
+    /** Arguments to send; middleware may replace them */
+    args: unknown[];
+    /** Metadata to send, starting from `options.meta`; middleware may add to it */
+    meta: CallMeta;
+    /** Per-call options; middleware may replace them, e.g. to change the timeout */
+    options: CallOptions;
+}
+
+/** Incoming call seen by handler middleware */
+export interface IncomingCall {
+    readonly kind: CallKind;
+    /** Local handler name */
+    readonly method: string;
+    /** Decoded and validated arguments; middleware may replace them */
+    args: unknown[];
+    /** Context passed to the handler */
+    readonly context: HandlerContext;
+}
+
+/** Run the rest of the chain: the next middleware, then the call or handler itself */
+export type Next = () => Promise<unknown>;
+
+/**
+ * Wraps outgoing calls. Resolve without calling `next()` to short-circuit the
+ * call, e.g. with a cached result. Notifications resolve with undefined.
+ */
+export type CallMiddleware = (call: OutgoingCall, next: Next) => Promise<unknown>;
+
+/**
+ * Wraps handler execution. Throw to reject the call, e.g. when it is not
+ * authorized; the caller receives the error.
+ */
+export type HandlerMiddleware = (call: IncomingCall, next: Next) => Promise<unknown>;
+
+/** Middleware registered with `bridge.use()`, for either side or both */
+export interface Middleware {
+    /** Wraps calls made by this bridge */
+    call?: CallMiddleware;
+    /** Wraps the local handlers called by the remote side */
+    handle?: HandlerMiddleware;
+}
+
+/**
+ * Run a call through a middleware chain. Middleware runs synchronously up to
+ * its first `await`, so the call is made synchronously when no middleware waits.
+ */
+export function runMiddleware<C>(
+    stack: readonly ((call: C, next: Next) => Promise<unknown>)[],
+    call: C,
+    last: (call: C) => unknown
+): Promise<unknown> {
+    const dispatch = (index: number): Promise<unknown> => {
+        try {
+            return index < stack.length
+                ? Promise.resolve(stack[index](call, () => dispatch(index + 1)))
+                : Promise.resolve(last(call));
+        } catch (error) {
+            return Promise.reject(error);
+        }
+    };
+    return dispatch(0);
+}
@@ -0,0 +1,30 @@
+/**
+ * Matching message origins against allowlists
+ */
+
+/**
+ * An exact origin (`'https://app.example.com'`), a wildcard pattern
+ * (`'https://*.example.com'`, or `'*'` for any origin), or a predicate
+ */
+export type OriginPattern = string | ((origin: string) => boolean);
+
+/** One origin pattern or a list of them; an empty list allows no origin */
+export type AllowedOrigins = OriginPattern | OriginPattern[];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// `*` matches one or more characters of the host or port, never a path
+const compilePattern = (pattern: OriginPattern): ((origin: string) => boolean) => {
+    if (typeof pattern === 'function') return pattern;
+    if (pattern === '*') return () => true;
+    if (!pattern.includes('*')) return (origin) => origin === pattern;
+
+    const regex = new RegExp(`^${pattern.split('*').map(escapeRegExp).join('[^/]+')}$`);
+    return (origin) => regex.test(origin);
+};
+
+/** Create a function checking origins against an allowlist */
+export function createOriginMatcher(allowed: AllowedOrigins): (origin: string) => boolean {
+    const matchers = (Array.isArray(allowed) ? allowed : [allowed]).map(compilePattern);
+    return (origin) => matchers.some((matches) => matches(origin));
+}
@@ -0,0 +1,55 @@
+/**
+ * Runtime validation with Standard Schema compatible libraries (zod, valibot, arktype...)
+ *
+ * The types below follow the Standard Schema v1 spec (https://standardschema.dev),
+ * copied here to keep the library free of dependencies.
+ */
+
+/** Path segment of a validation issue */
+export interface SchemaPathSegment {
+    readonly key: PropertyKey;
+}
+
+/** Problem reported by a schema */
+export interface SchemaIssue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | SchemaPathSegment>;
+}
+
+/** Outcome of validating a value */
+export type SchemaResult<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: ReadonlyArray<SchemaIssue> };
+
+/** Schema implementing the Standard Schema v1 interface */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+    readonly '~standard': {
+        readonly version: 1;
+        readonly vendor: string;
+        readonly validate: (value: unknown) => SchemaResult<Output> | Promise<SchemaResult<Output>>;
+        readonly types?: { readonly input: Input; readonly output: Output };
+    };
+}
+
+/**
+ * Run a schema, returning the (possibly transformed) value or the issues found.
+ * A schema that throws rejects the returned promise.
+ */
+export function validateSchema<Output>(
+    schema: StandardSchemaV1<unknown, Output>,
+    value: unknown
+): Promise<SchemaResult<Output>> {
+    return Promise.resolve().then(() => schema['~standard'].validate(value));
+}
+
+/** Format issues as `path: message` entries for error messages */
+export function formatSchemaIssues(issues: ReadonlyArray<SchemaIssue>): string {
+    return issues
+        .map((issue) => {
+            const path = issue.path
+                ?.map((segment) => String(typeof segment === 'object' ? segment.key : segment))
+                .join('.');
+            return path ? `${path}: ${issue.message}` : issue.message;
+        })
+        .join('; ');
+}
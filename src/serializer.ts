@@ -0,0 +1,185 @@
+/**
+ * Custom serialization of values structured cloning cannot carry
+ */
+
+import { mapDeep } from './utils';
+
+/**
+ * Converts values of one type into data the transport can carry, and back.
+ * Encoded values are sent tagged with the name the handler is registered under.
+ */
+export interface TypeHandler<T = any, D = any> {
+    /** Whether a value is of this type */
+    test: (value: unknown) => boolean;
+    /** Convert a value to data; the data is encoded in turn, so it may contain other custom types */
+    encode: (value: T) => D;
+    /** Rebuild a value from its data */
+    decode: (data: D) => T;
+}
+
+/** Options of `BridgeOptions.serializer` */
+export interface SerializerOptions {
+    /**
+     * Type handlers keyed by the tag sent with encoded values. Register the same
+     * tags on both sides; checked in order, before the built-in handlers.
+     */
+    types?: Record<string, TypeHandler>;
+    /**
+     * Encode payloads into JSON-compatible data, for transports that send JSON:
+     * adds the built-in `bigint`, `date`, `zonedDate`, `map` and `set` handlers. Default: false
+     */
+    json?: boolean;
+}
+
+/** Value replaced by a type handler, as sent over the wire */
+export interface TaggedValue {
+    __iframeRpcType: string;
+    value: unknown;
+}
+
+const isTaggedValue = (value: unknown): value is TaggedValue =>
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as TaggedValue).__iframeRpcType === 'string' &&
+    'value' in value;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// ISO 8601 in a UTC offset (minutes), e.g. '2024-05-01T09:00:00.000+07:00'
+const toOffsetIsoString = (date: Date, offset: number): string => {
+    const local = new Date(date.getTime() + offset * 60000).toISOString().slice(0, -1);
+    const sign = offset < 0 ? '-' : '+';
+    return `${local}${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+};
+
+// Offset and optional time zone of a string written by ZonedDate.toString()
+const ZONED_DATE_PATTERN = /([+-])(\d{2}):(\d{2})(?:\[([^\]]+)\])?$/;
+
+/**
+ * A date with the UTC offset (and optionally the IANA time zone) it belongs
+ * to, which a plain Date cannot carry. Sent by the built-in `zonedDate`
+ * handler as a Temporal-style string, e.g. '2024-05-01T16:00:00.000+07:00[Asia/Bangkok]'.
+ */
+export class ZonedDate {
+    constructor(
+        /** The instant */
+        readonly date: Date,
+        /** UTC offset in minutes, e.g. 420 for +07:00. Default: the local offset at that instant */
+        readonly offset: number = -date.getTimezoneOffset(),
+        /** IANA time zone, e.g. 'Asia/Bangkok' */
+        readonly timeZone?: string
+    ) { }
+
+    /** ISO 8601 in the offset, followed by the time zone in brackets when known */
+    toString(): string {
+        if (isNaN(this.date.getTime())) return 'Invalid Date';
+        const iso = toOffsetIsoString(this.date, this.offset);
+        return this.timeZone ? `${iso}[${this.timeZone}]` : iso;
+    }
+
+    /** Parse a string written by `toString()`; without an offset, the date is in UTC */
+    static from(value: string): ZonedDate {
+        const match = ZONED_DATE_PATTERN.exec(value);
+        if (!match) return new ZonedDate(new Date(value), 0);
+        const [, sign, hours, minutes, timeZone] = match;
+        const offset = (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
+        return new ZonedDate(new Date(value.replace(/\[[^\]]*\]$/, '')), offset, timeZone);
+    }
+}
+
+/** Built-in type handlers, used in JSON mode and available to add to `types` */
+export const builtinTypes = {
+    /** BigInts, as decimal strings */
+    bigint: {
+        test: (value) => typeof value === 'bigint',
+        encode: (value) => value.toString(),
+        decode: (data) => BigInt(data),
+    } as TypeHandler<bigint, string>,
+    /** Dates, as ISO 8601 strings in UTC */
+    date: {
+        test: (value) => value instanceof Date,
+        encode: (value) => (isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()),
+        decode: (data) => new Date(data),
+    } as TypeHandler<Date, string>,
+    /** Zoned dates, keeping their offset and time zone */
+    zonedDate: {
+        test: (value) => value instanceof ZonedDate,
+        encode: (value) => value.toString(),
+        decode: (data) => ZonedDate.from(data),
+    } as TypeHandler<ZonedDate, string>,
+    /** Maps, as lists of entries */
+    map: {
+        test: (value) => value instanceof Map,
+        encode: (value) => [...value],
+        decode: (data) => new Map(data),
+    } as TypeHandler<Map<unknown, unknown>, [unknown, unknown][]>,
+    /** Sets, as lists of values */
+    set: {
+        test: (value) => value instanceof Set,
+        encode: (value) => [...value],
+        decode: (data) => new Set(data),
+    } as TypeHandler<Set<unknown>, unknown[]>,
+};
+
+/**
+ * Handler reviving instances of a class: their own enumerable properties are
+ * sent, and restored on an object with the class prototype (the constructor is
+ * not called). Subclasses need their own handler.
+ *
+ * @example
+ * serializer: { types: { Money: classType(Money) } }
+ */
+export function classType<T extends object>(Class: new (...args: any[]) => T): TypeHandler<T, Partial<T>> {
+    return {
+        test: (value) => value != null && Object.getPrototypeOf(value) === Class.prototype,
+        encode: (value) => ({ ...value }),
+        decode: (data) => Object.assign(Object.create(Class.prototype), data),
+    };
+}
+
+/** Encodes and decodes payloads with the configured type handlers */
+export interface Serializer {
+    /** Tags this side can decode, announced during the handshake */
+    readonly tags: string[];
+    /** Replace values of custom types, using only the handlers whose tag the remote side knows */
+    encode: (value: unknown, remoteTags: ReadonlySet<string>) => unknown;
+    /** Restore values of custom types */
+    decode: (value: unknown) => unknown;
+}
+
+/**
+ * Create the serializer of a bridge
+ * @internal
+ */
+export function createSerializer(options: SerializerOptions): Serializer {
+    const handlers: Record<string, TypeHandler> = { ...options.types };
+    if (options.json) {
+        for (const [tag, handler] of Object.entries(builtinTypes)) {
+            if (!Object.prototype.hasOwnProperty.call(handlers, tag)) handlers[tag] = handler;
+        }
+    }
+    const entries = Object.entries(handlers);
+
+    const encode = (value: unknown, remoteTags: ReadonlySet<string>): unknown =>
+        mapDeep(value, (current) => {
+            for (const [tag, handler] of entries) {
+                if (remoteTags.has(tag) && handler.test(current)) {
+                    return { __iframeRpcType: tag, value: encode(handler.encode(current), remoteTags) };
+                }
+            }
+            return current;
+        }, new WeakSet());
+
+    const decode = (value: unknown): unknown =>
+        mapDeep(value, (current) => {
+            if (!isTaggedValue(current)) return current;
+            if (!Object.prototype.hasOwnProperty.call(handlers, current.__iframeRpcType)) return current;
+            return handlers[current.__iframeRpcType].decode(decode(current.value));
+        }, new WeakSet());
+
+    return {
+        tags: Object.keys(handlers),
+        encode,
+        decode,
+    };
+}
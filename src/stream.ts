@@ -0,0 +1,167 @@
+/**
+ * Caller-side handling of streamed responses
+ */
+
+import { RpcError } from './errors';
+import { createDeferred, type Deferred } from './utils';
+
+/** Callbacks connecting a stream reader to the bridge */
+export interface StreamReaderHooks {
+    /** Maximum number of chunks buffered or in flight */
+    highWaterMark: number;
+    /** Grant the producer `count` more chunks */
+    pull: (count: number) => void;
+    /** Ask the producer to stop (consumer called `return()` or `throw()`) */
+    cancel: () => void;
+    /** Called once the stream is finished for any reason */
+    close: () => void;
+}
+
+/** Async iterator fed by stream messages from the remote side */
+export interface StreamReader<T = unknown> extends AsyncIterableIterator<T> {
+    /** Deliver a chunk received from the remote side */
+    push: (value: T) => void;
+    /** Mark the stream as completed by the remote side */
+    end: () => void;
+    /** Fail the stream, rejecting the next `next()` call */
+    fail: (error: Error) => void;
+}
+
+/** Type guard for values that handlers return to stream a response */
+export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function'
+    );
+}
+
+/**
+ * Create the iterator handed to the caller of a streaming method.
+ * Credits are granted up front and replenished as the consumer drains the
+ * buffer, so at most `highWaterMark` chunks are buffered at any time.
+ */
+export function createStreamReader<T = unknown>(hooks: StreamReaderHooks): StreamReader<T> {
+    const { highWaterMark } = hooks;
+    const buffer: T[] = [];
+    let waiting: Deferred<IteratorResult<T>> | null = null;
+    let isDone = false;
+    let failure: Error | null = null;
+    let consumed = 0;
+
+    const finish = () => {
+        if (isDone) return;
+        isDone = true;
+        hooks.close();
+    };
+
+    // Replenish credit once half of the window has been consumed
+    const consume = (value: T): IteratorResult<T> => {
+        consumed++;
+        if (!isDone && consumed >= Math.ceil(highWaterMark / 2)) {
+            hooks.pull(consumed);
+            consumed = 0;
+        }
+        return { value, done: false };
+    };
+
+    const settleWaiting = () => {
+        if (!waiting) return;
+        const current = waiting;
+        if (buffer.length > 0) {
+            waiting = null;
+            current.resolve(consume(buffer.shift()!));
+        } else if (failure) {
+            waiting = null;
+            current.reject(failure);
+        } else if (isDone) {
+            waiting = null;
+            current.resolve({ value: undefined, done: true });
+        }
+    };
+
+    const stop = () => {
+        buffer.length = 0;
+        if (!isDone) {
+            hooks.cancel();
+            finish();
+        }
+        settleWaiting();
+    };
+
+    const reader: StreamReader<T> = {
+        next: () => {
+            if (buffer.length > 0) return Promise.resolve(consume(buffer.shift()!));
+            if (failure) return Promise.reject(failure);
+            if (isDone) return Promise.resolve({ value: undefined, done: true });
+            if (waiting) {
+                return Promise.reject(new RpcError('Concurrent next() calls on a stream', 'STREAM_BUSY'));
+            }
+            waiting = createDeferred<IteratorResult<T>>();
+            return waiting.promise;
+        },
+        return: (value?: unknown) => {
+            stop();
+            return Promise.resolve({ value: value as T, done: true });
+        },
+        throw: (error?: unknown) => {
+            stop();
+            return Promise.reject(error);
+        },
+        [Symbol.asyncIterator]() {
+            return reader;
+        },
+        push: (value) => {
+            if (isDone) return;
+            buffer.push(value);
+            settleWaiting();
+        },
+        end: () => {
+            finish();
+            settleWaiting();
+        },
+        fail: (error) => {
+            if (isDone) return;
+            failure = error;
+            finish();
+            settleWaiting();
+        },
+    };
+
+    hooks.pull(highWaterMark);
+    return reader;
+}
+
+/**
+ * Make a call result usable as an async iterator as well as a promise, so
+ * `for await (const chunk of bridge.call.streamingMethod())` works even though
+ * the caller cannot know up front whether the remote handler streams.
+ */
+export function toCallResult<T>(promise: Promise<T>, method: string): Promise<T> & AsyncIterableIterator<unknown> {
+    let iterator: Promise<AsyncIterator<unknown>> | undefined;
+
+    const getIterator = () => {
+        iterator ??= promise.then((result) => {
+            if (!isAsyncIterable(result)) {
+                throw new RpcError(`Method "${method}" did not return a stream`, 'NOT_A_STREAM');
+            }
+            return result[Symbol.asyncIterator]();
+        });
+        return iterator;
+    };
+
+    const result = promise as Promise<T> & AsyncIterableIterator<unknown>;
+    result.next = () => getIterator().then((it) => it.next());
+    result.return = (value?: unknown) =>
+        getIterator().then(
+            (it) => it.return?.(value) ?? { value, done: true as const },
+            () => ({ value, done: true as const })
+        );
+    result.throw = (error?: unknown) =>
+        getIterator().then((it) => {
+            if (it.throw) return it.throw(error);
+            throw error;
+        });
+    result[Symbol.asyncIterator] = () => result;
+    return result;
+}
@@ -0,0 +1,68 @@
+/**
+ * Marking values to be transferred instead of copied by postMessage
+ */
+
+// Values marked with transfer(), mapped to the objects to put in the transfer list
+const transferCache = new WeakMap<object, Transferable[]>();
+
+/**
+ * Mark a value so the bridge transfers the given objects instead of copying them
+ * when the value is sent as an argument, result or streamed chunk.
+ * Transferred objects are detached (unusable) on the sending side afterwards.
+ *
+ * @param value - Value being sent (an argument, a result, or an object containing them)
+ * @param transferables - Objects to transfer. Default: the value itself (e.g. an ArrayBuffer)
+ * @returns The same value, so the call can be inlined
+ *
+ * @example
+ * await bridge.call.saveImage(transfer(buffer));
+ * await bridge.call.render(transfer({ pixels, width }, [pixels]));
+ */
+export function transfer<T>(value: T, transferables?: Transferable[]): T {
+    if (typeof value !== 'object' || value === null) {
+        throw new TypeError('transfer() can only mark objects');
+    }
+    transferCache.set(value, transferables ?? [value as unknown as Transferable]);
+    return value;
+}
+
+/**
+ * Collect the transferables of values marked with transfer(), looking at the
+ * value itself and inside arrays and plain objects. Markers are consumed, as
+ * transferred objects cannot be sent twice.
+ */
+export function collectTransferables(value: unknown): Transferable[] {
+    const found = new Set<Transferable>();
+    const seen = new WeakSet<object>();
+
+    const visit = (current: unknown) => {
+        if (typeof current !== 'object' || current === null || seen.has(current)) return;
+        seen.add(current);
+
+        const marked = transferCache.get(current);
+        if (marked) {
+            transferCache.delete(current);
+            marked.forEach((item) => found.add(item));
+        }
+
+        if (Array.isArray(current)) {
+            current.forEach(visit);
+            return;
+        }
+
+        const proto = Object.getPrototypeOf(current);
+        if (proto === Object.prototype || proto === null) {
+            Object.values(current).forEach(visit);
+        }
+    };
+
+    visit(value);
+    return [...found];
+}
+
+/** Combine transfer lists, dropping duplicates (postMessage rejects them) */
+export function mergeTransferables(...lists: (Transferable[] | undefined)[]): Transferable[] {
+    const merged = new Set<Transferable>();
+    for (const list of lists) list?.forEach((item) => merged.add(item));
+    return [...merged];
+}
@@ -0,0 +1,246 @@
+/**
+ * Transports carrying bridge messages between two endpoints
+ */
+
+import { createOriginMatcher, type AllowedOrigins } from './origin';
+import { MESSAGE_TYPE } from './messages';
+import { isRpcMessage } from './utils';
+
+/** Called with each message received from the remote side */
+export type TransportListener = (data: unknown, event?: MessageEvent) => void;
+
+/**
+ * Channel between two bridges. Implement it to run a bridge over any
+ * message-passing API; built-in transports cover windows, ports, workers and
+ * broadcast channels.
+ */
+export interface Transport {
+    /** Send a message to the remote side, transferring the given objects */
+    send: (message: unknown, transfer?: Transferable[]) => void;
+    /**
+     * Listen for messages from the remote side
+     * @returns Function that removes the listener
+     */
+    subscribe: (listener: TransportListener) => () => void;
+    /** Release the underlying resources; called when the bridge is destroyed */
+    close?: () => void;
+}
+
+/** Options for window transports */
+export interface WindowTransportOptions {
+    /** Target origin for postMessage, or a getter for origins learned later. Default: '*' */
+    targetOrigin?: string | (() => string);
+    /** Origins accepted for incoming messages; others are ignored. Default: `targetOrigin` */
+    allowedOrigins?: AllowedOrigins;
+}
+
+/**
+ * Transport to another window (an iframe's contentWindow, `window.parent`, an opener...)
+ * @param target - The window, or a getter for windows that change (e.g. an iframe navigating)
+ *
+ * @example
+ * const transport = createWindowTransport(() => iframe.contentWindow, {
+ *   targetOrigin: 'https://widget.example.com',
+ * });
+ */
+export function createWindowTransport(
+    target: Window | (() => Window | null),
+    options: WindowTransportOptions = {}
+): Transport {
+    const getTarget = typeof target === 'function' ? target : () => target;
+    const getTargetOrigin = typeof options.targetOrigin === 'function'
+        ? options.targetOrigin
+        : () => (options.targetOrigin as string | undefined) ?? '*';
+    const isAllowedOrigin = createOriginMatcher(options.allowedOrigins ?? ((origin) => {
+        const targetOrigin = getTargetOrigin();
+        return targetOrigin === '*' || origin === targetOrigin;
+    }));
+
+    return {
+        send: (message, transfer) => {
+            const targetWindow = getTarget();
+            if (!targetWindow) return;
+            const targetOrigin = getTargetOrigin();
+            if (transfer && transfer.length > 0) {
+                targetWindow.postMessage(message, targetOrigin, transfer);
+            } else {
+                targetWindow.postMessage(message, targetOrigin);
+            }
+        },
+        subscribe: (listener) => {
+            const handleMessage = (event: MessageEvent) => {
+                if (!isAllowedOrigin(event.origin)) return;
+                listener(event.data, event);
+            };
+            window.addEventListener('message', handleMessage);
+            return () => window.removeEventListener('message', handleMessage);
+        },
+    };
+}
+
+/** Options for pinning the parent origin, see `BridgeOptions.pinParentOrigin` */
+export interface ParentOriginPinningOptions {
+    /** Channel of the bridge, to recognize its handshake */
+    channel: string;
+    /** Parent origins that may be pinned */
+    allowedOrigins: AllowedOrigins;
+    /** Only pin the origin reported by `location.ancestorOrigins` or `document.referrer` */
+    checkAncestor: boolean;
+}
+
+// Origin of the embedding page as reported by the browser, if it reports one
+const getAncestorOrigin = (): string | undefined => {
+    const ancestorOrigins = typeof location !== 'undefined' ? location.ancestorOrigins : undefined;
+    if (ancestorOrigins && ancestorOrigins.length > 0) return ancestorOrigins[0];
+    if (typeof document === 'undefined' || !document.referrer) return undefined;
+    try {
+        return new URL(document.referrer).origin;
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Transport to the parent window that learns the parent origin from the
+ * parent's first handshake message, then only sends to and accepts that origin.
+ * Until then, nothing but the handshake is accepted.
+ * @internal
+ */
+export function createParentOriginPinningTransport(options: ParentOriginPinningOptions): Transport {
+    let pinnedOrigin: string | undefined;
+    const isAllowedOrigin = createOriginMatcher(options.allowedOrigins);
+
+    const transport = createWindowTransport(() => window.parent, {
+        targetOrigin: () => pinnedOrigin ?? '*',
+        allowedOrigins: (origin) => pinnedOrigin === undefined ? isAllowedOrigin(origin) : origin === pinnedOrigin,
+    });
+
+    const isParentHandshake = (data: unknown, event: MessageEvent | undefined): event is MessageEvent =>
+        isRpcMessage(data) &&
+        (data.type === MESSAGE_TYPE.SYN || data.type === MESSAGE_TYPE.ACK) &&
+        data.channel === options.channel &&
+        event?.source === window.parent;
+
+    return {
+        send: transport.send,
+        subscribe: (listener) => transport.subscribe((data, event) => {
+            if (pinnedOrigin === undefined) {
+                if (!isParentHandshake(data, event)) return;
+                if (options.checkAncestor && event.origin !== getAncestorOrigin()) return;
+                pinnedOrigin = event.origin;
+            }
+            listener(data, event);
+        }),
+    };
+}
+
+/** Endpoint with the MessagePort/Worker messaging API, e.g. `self` inside a dedicated worker */
+export interface MessageEndpoint {
+    postMessage: (message: unknown, transfer: Transferable[]) => void;
+    addEventListener: (type: 'message', listener: (event: MessageEvent) => void) => void;
+    removeEventListener: (type: 'message', listener: (event: MessageEvent) => void) => void;
+}
+
+// Send and receive through a postMessage endpoint
+const createEndpointTransport = (
+    endpoint: MessageEndpoint,
+    hooks: { start?: () => void; close?: () => void } = {}
+): Transport => ({
+    send: (message, transfer) => endpoint.postMessage(message, transfer ?? []),
+    subscribe: (listener) => {
+        const handleMessage = (event: MessageEvent) => listener(event.data, event);
+        endpoint.addEventListener('message', handleMessage);
+        hooks.start?.();
+        return () => endpoint.removeEventListener('message', handleMessage);
+    },
+    close: hooks.close,
+});
+
+/**
+ * Transport over a MessagePort, e.g. one end of a MessageChannel.
+ * The port is started when subscribed to and closed with the bridge.
+ */
+export function createMessagePortTransport(port: MessagePort): Transport {
+    return createEndpointTransport(port, {
+        start: () => port.start(),
+        close: () => port.close(),
+    });
+}
+
+/**
+ * Transport to a web worker. Pass the Worker (or SharedWorker) on the page,
+ * and `self` inside a dedicated worker. Workers passed in are left running;
+ * pass a script URL instead to start a worker terminated with the bridge.
+ *
+ * @param worker - The worker endpoint, or the URL of a worker script to start
+ * @param options - Options of the started worker, when a URL is passed
+ *
+ * @example
+ * // Page
+ * const bridge = createBridge(createWorkerTransport('worker.js', { type: 'module' }), handlers);
+ *
+ * // worker.js
+ * const bridge = createBridge(createWorkerTransport(self), handlers);
+ */
+export function createWorkerTransport(
+    worker: Worker | SharedWorker | MessageEndpoint | string | URL,
+    options?: WorkerOptions
+): Transport {
+    if (typeof worker === 'string' || worker instanceof URL) {
+        const ownedWorker = new Worker(worker, options);
+        return createEndpointTransport(ownedWorker, { close: () => ownedWorker.terminate() });
+    }
+    if ('port' in worker) {
+        const { port } = worker;
+        return createEndpointTransport(port, { start: () => port.start() });
+    }
+    return createEndpointTransport(worker);
+}
+
+/**
+ * Transport over a BroadcastChannel, connecting same-origin tabs, frames and workers.
+ * Objects cannot be transferred over a BroadcastChannel and are copied instead.
+ * @param channel - The channel, or a channel name to open (and close with the bridge)
+ */
+export function createBroadcastChannelTransport(channel: BroadcastChannel | string): Transport {
+    const isOwned = typeof channel === 'string';
+    const broadcastChannel = isOwned ? new BroadcastChannel(channel) : channel;
+
+    return {
+        send: (message) => broadcastChannel.postMessage(message),
+        subscribe: (listener) => {
+            const handleMessage = (event: MessageEvent) => listener(event.data, event);
+            broadcastChannel.addEventListener('message', handleMessage);
+            return () => broadcastChannel.removeEventListener('message', handleMessage);
+        },
+        close: isOwned ? () => broadcastChannel.close() : undefined,
+    };
+}
+
+/**
+ * Create two connected in-memory transports, e.g. to test bridges without windows.
+ * Messages are structured-cloned (when supported) and delivered asynchronously.
+ */
+export function createInMemoryTransportPair(): [Transport, Transport] {
+    const listeners: [Set<TransportListener>, Set<TransportListener>] = [new Set(), new Set()];
+    let isClosed = false;
+
+    const createEnd = (local: Set<TransportListener>, remote: Set<TransportListener>): Transport => ({
+        send: (message, transfer) => {
+            if (isClosed) return;
+            const copy = typeof structuredClone === 'function'
+                ? structuredClone(message, { transfer })
+                : message;
+            Promise.resolve().then(() => remote.forEach((listener) => listener(copy)));
+        },
+        subscribe: (listener) => {
+            local.add(listener);
+            return () => local.delete(listener);
+        },
+        close: () => {
+            isClosed = true;
+        },
+    });
+
+    return [createEnd(listeners[0], listeners[1]), createEnd(listeners[1], listeners[0])];
+}
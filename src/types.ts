@@ -2,6 +2,8 @@
  * Type utilities and contracts for iframe-rpc
  */
 
+import type { AnyFailure, Fallible } from './fallible';
+
 /** Extract the return type, unwrapping Promise if needed */
 export type UnwrapPromise<T> = T extends Promise<infer U> ? U : T;
 
@@ -22,13 +24,44 @@ export type VoidMethods<T extends MethodContract> = {
 /** Extract methods that return a value (request-response) */
 export type ValueMethods<T extends MethodContract> = Exclude<keyof T, VoidMethods<T>>;
 
+/**
+ * Result of calling a remote method: methods returning an `AsyncIterable`
+ * (e.g. async generators) are streamed and consumed as async iterators, and
+ * `Fallible` methods keep their failures for `settle()`
+ */
+export type CallResult<R> = R extends { readonly __failures?: infer E extends AnyFailure }
+    ? unknown extends E ? PlainCallResult<R> : Fallible<UnwrapPromise<R>, E>
+    : PlainCallResult<R>;
+
+/** Result of calling a method that is not `Fallible` */
+type PlainCallResult<R> = UnwrapPromise<R> extends AsyncIterable<infer U>
+    ? AsyncIterableIterator<U>
+    : Promise<UnwrapPromise<R>>;
+
 /** Type-safe proxy for calling remote methods */
 export type CallProxy<T extends MethodContract> = {
     [K in keyof T]: T[K] extends (...args: infer A) => infer R
-    ? (...args: A) => Promise<UnwrapPromise<R>>
+    ? (...args: A) => CallResult<R>
     : never;
 };
 
+/** Metadata sent along with a call, e.g. an auth token, trace id or locale */
+export type CallMeta = Record<string, unknown>;
+
+/** Context of a call, passed to handlers wrapped with `withContext()` */
+export interface HandlerContext {
+    /** Aborted when the caller cancels the request */
+    signal: AbortSignal;
+    /** Id of the call; undefined for notifications */
+    id?: string;
+    /** Metadata sent with the call (see `CallOptions.meta`), empty when none was sent */
+    meta: CallMeta;
+    /** Origin of the calling window; undefined over transports without origins */
+    origin?: string;
+    /** Window, port or worker that sent the call; undefined over transports without one */
+    source?: MessageEventSource;
+}
+
 /**
  * Helper type to define RPC method contracts
  * Ensures all methods are properly typed
@@ -2,7 +2,7 @@
  * Utility functions for iframe-rpc
  */
 
-import { MESSAGE_TYPE, type RpcMessage } from './messages';
+import { MESSAGE_TYPE_PREFIX, type RpcMessage } from './messages';
 import type { ResolvedBridgeOptions } from './config';
 
 /** Generate a unique ID for RPC requests */
@@ -19,10 +19,10 @@ export function generateId(): string {
     return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
 }
 
-// Cache valid message types for performance
-const VALID_MESSAGE_TYPES = new Set(Object.values(MESSAGE_TYPE));
-
-/** Type guard to check if data is a valid RPC message */
+/**
+ * Type guard to check if data is an RPC message. Message types added by newer
+ * library versions pass too; the bridge decides how to handle them.
+ */
 export function isRpcMessage(data: unknown): data is RpcMessage {
     return (
         typeof data === 'object' &&
@@ -30,13 +30,14 @@ export function isRpcMessage(data: unknown): data is RpcMessage {
         '__iframeRpc' in data &&
         (data as any).__iframeRpc === true &&
         'type' in data &&
-        VALID_MESSAGE_TYPES.has((data as any).type)
+        typeof (data as any).type === 'string' &&
+        (data as any).type.startsWith(MESSAGE_TYPE_PREFIX)
     );
 }
 
 /** Warn if using insecure wildcard origin in debug mode */
 export function warnIfInsecureOrigin(options: ResolvedBridgeOptions): void {
-    if (options.debug && options.targetOrigin === '*') {
+    if (options.debug && options.targetOrigin === '*' && !options.pinParentOrigin) {
         console.warn('[iframe-rpc] Using targetOrigin:"*" is insecure for production. Consider specifying an exact origin.');
     }
 }
@@ -53,6 +54,86 @@ export function createLogger(debug: boolean, prefix: string) {
     };
 }
 
+/** Promise with externally accessible resolve/reject */
+export interface Deferred<T> {
+    promise: Promise<T>;
+    resolve: (value: T) => void;
+    reject: (error: Error) => void;
+}
+
+/** Create a deferred promise; rejections are pre-handled to avoid unhandled rejection warnings */
+export function createDeferred<T>(): Deferred<T> {
+    let resolve!: (value: T) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    promise.catch(() => undefined);
+    return { promise, resolve, reject };
+}
+
+/**
+ * Whether structured cloning can copy a value (no functions, DOM nodes...).
+ * Assumed true where `structuredClone` is unavailable.
+ */
+export function isCloneable(value: unknown): boolean {
+    if (typeof structuredClone !== 'function') return true;
+    try {
+        structuredClone(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
 /** Sleep helper for retry delays */
 export const sleep = (ms: number): Promise<void> =>
     new Promise(resolve => setTimeout(resolve, ms));
+
+/** Whether a value is a plain object (not an array, class instance or built-in object) */
+export const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+    if (typeof value !== 'object' || value === null) return false;
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Recursively replace values in arrays and plain objects. Returns the original
+ * value when nothing was replaced, so arguments without matches are not copied.
+ */
+export function mapDeep(
+    value: unknown,
+    replace: (value: unknown) => unknown,
+    seen: WeakSet<object>
+): unknown {
+    const replaced = replace(value);
+    if (replaced !== value) return replaced;
+
+    if (Array.isArray(value)) {
+        if (seen.has(value)) return value;
+        seen.add(value);
+        let changed = false;
+        const mapped = value.map((item) => {
+            const next = mapDeep(item, replace, seen);
+            if (next !== item) changed = true;
+            return next;
+        });
+        return changed ? mapped : value;
+    }
+
+    if (isPlainObject(value)) {
+        if (seen.has(value)) return value;
+        seen.add(value);
+        let changed = false;
+        const mapped: Record<string, unknown> = {};
+        for (const key of Object.keys(value)) {
+            const next = mapDeep(value[key], replace, seen);
+            if (next !== value[key]) changed = true;
+            mapped[key] = next;
+        }
+        return changed ? mapped : value;
+    }
+
+    return value;
+}